@@ -7,6 +7,7 @@ import { useAuth } from "@/hooks/useAuth";
 import Landing from "@/pages/landing";
 import Home from "@/pages/home";
 import Match from "@/pages/match";
+import Challenge from "@/pages/challenge";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -20,6 +21,7 @@ function Router() {
         <>
           <Route path="/" component={Home} />
           <Route path="/match/:matchId" component={Match} />
+          <Route path="/challenge/:inviteCode" component={Challenge} />
         </>
       )}
       <Route component={NotFound} />
@@ -0,0 +1,95 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Scale } from "lucide-react";
+import { ratingIcons, ratingColors } from "@/lib/moveRatings";
+
+interface AppealReviewCardProps {
+  reviews: any[];
+  onSubmitReview: (appealId: string, review: { rating?: string; verdict?: string }) => void;
+  submittingAppealId: string | null;
+}
+
+export default function AppealReviewCard({
+  reviews,
+  onSubmitReview,
+  submittingAppealId,
+}: AppealReviewCardProps) {
+  if (reviews.length === 0) return null;
+
+  return (
+    <Card className="border-border">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold mb-1 flex items-center" data-testid="title-appeal-reviews">
+          <Scale className="mr-2 h-5 w-5 text-amber-500" />
+          Appeals to Review
+        </h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          You've been picked for an appeal panel. Judge the {reviews.length === 1 ? 'item' : 'items'} below on their merits.
+        </p>
+
+        <div className="space-y-6">
+          {reviews.map((review: any) => (
+            <div key={review.id} className="border-b border-border pb-4 last:border-b-0 last:pb-0" data-testid={`appeal-review-${review.id}`}>
+              <div className="text-sm mb-2">
+                <span className="font-semibold">
+                  {review.type === 'message' ? 'Rate the highlighted move' : 'Who won this match?'}
+                </span>
+                <p className="text-muted-foreground italic mt-1">"{review.reason}"</p>
+              </div>
+
+              <div className="max-h-48 overflow-y-auto space-y-1 text-sm bg-accent rounded-lg p-3 mb-3">
+                {review.transcript.map((msg: any) => (
+                  <div
+                    key={msg.id}
+                    className={msg.id === review.messageId ? 'font-semibold text-primary' : ''}
+                  >
+                    <span className="text-muted-foreground">{msg.speaker}:</span> {msg.content}
+                  </div>
+                ))}
+              </div>
+
+              {review.type === 'message' ? (
+                <div className="flex flex-wrap gap-1">
+                  {Object.entries(ratingIcons).map(([rating, IconComponent]) => (
+                    <Button
+                      key={rating}
+                      variant="ghost"
+                      size="sm"
+                      title={rating}
+                      disabled={submittingAppealId === review.id}
+                      onClick={() => onSubmitReview(review.id, { rating })}
+                      className="h-7 px-2"
+                      data-testid={`button-appeal-rate-${rating}`}
+                    >
+                      <IconComponent className={`h-4 w-4 ${ratingColors[rating as keyof typeof ratingColors]}`} />
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex space-x-2">
+                  {([
+                    ['player1', 'Player 1'],
+                    ['draw', 'Draw'],
+                    ['player2', 'Player 2'],
+                  ] as const).map(([verdict, label]) => (
+                    <Button
+                      key={verdict}
+                      variant="secondary"
+                      size="sm"
+                      disabled={submittingAppealId === review.id}
+                      onClick={() => onSubmitReview(review.id, { verdict })}
+                      className="flex-1"
+                      data-testid={`button-appeal-verdict-${verdict}`}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
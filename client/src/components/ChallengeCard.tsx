@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Swords, Copy, Check, X } from "lucide-react";
+import { TIME_CONTROLS, DEFAULT_TIME_CONTROL, formatTimeControl, type TimeControlId } from "@shared/timeControls";
+import { GAME_MODES, DEFAULT_GAME_MODE } from "@shared/gameModes";
+import type { GameMode } from "@shared/schema";
+
+interface ChallengeSettings {
+  challengedId?: string;
+  judgeIds?: string[];
+  timeControl: TimeControlId;
+  gameMode: GameMode;
+  blindJudging: boolean;
+  rated: boolean;
+}
+
+interface ChallengeCardProps {
+  userId: string;
+  challenges: any[];
+  onCreateChallenge: (settings: ChallengeSettings) => void;
+  isCreating: boolean;
+  onAccept: (challengeId: string) => void;
+  onDecline: (challengeId: string) => void;
+  onCancel: (challengeId: string) => void;
+  onJudgeAnswer: (challengeId: string, accept: boolean) => void;
+}
+
+export default function ChallengeCard({
+  userId,
+  challenges,
+  onCreateChallenge,
+  isCreating,
+  onAccept,
+  onDecline,
+  onCancel,
+  onJudgeAnswer,
+}: ChallengeCardProps) {
+  const [challengedId, setChallengedId] = useState("");
+  const [judge1Id, setJudge1Id] = useState("");
+  const [judge2Id, setJudge2Id] = useState("");
+  const [timeControl, setTimeControl] = useState<TimeControlId>(DEFAULT_TIME_CONTROL);
+  const [gameMode, setGameMode] = useState<GameMode>(DEFAULT_GAME_MODE);
+  const [blindJudging, setBlindJudging] = useState(false);
+  const [rated, setRated] = useState(true);
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+
+  const namingJudges = judge1Id.trim() !== "" || judge2Id.trim() !== "";
+  const judgesComplete = judge1Id.trim() !== "" && judge2Id.trim() !== "";
+
+  const getDisplayName = (playerUser: any) => {
+    if (playerUser?.firstName || playerUser?.lastName) {
+      return `${playerUser.firstName || ''} ${playerUser.lastName || ''}`.trim();
+    }
+    return 'Player';
+  };
+
+  const handleCreate = () => {
+    onCreateChallenge({
+      challengedId: challengedId.trim() || undefined,
+      judgeIds: judgesComplete ? [judge1Id.trim(), judge2Id.trim()] : undefined,
+      timeControl,
+      gameMode,
+      blindJudging,
+      rated,
+    });
+    setChallengedId("");
+    setJudge1Id("");
+    setJudge2Id("");
+  };
+
+  const copyText = async (text: string, key: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopiedCode(key);
+    setTimeout(() => setCopiedCode(null), 2000);
+  };
+
+  const inviteLink = (inviteCode: string) => `${window.location.origin}/challenge/${inviteCode}`;
+
+  const incoming = challenges.filter(c => c.challengedId === userId && c.status === 'pending');
+  const outgoing = challenges.filter(c => c.challengerId === userId && c.status === 'pending');
+  // Challenges naming this user as a judge that they haven't answered yet
+  const judgeInvites = challenges.filter(c =>
+    (c.status === 'pending' || c.status === 'accepted') &&
+    ((c.judge1Id === userId && !c.judge1AcceptedAt) || (c.judge2Id === userId && !c.judge2AcceptedAt))
+  );
+  const judgesAccepted = (challenge: any) => [challenge.judge1AcceptedAt, challenge.judge2AcceptedAt].filter(Boolean).length;
+
+  return (
+    <Card className="mt-8 border-border">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold mb-1 flex items-center" data-testid="title-challenges">
+          <Swords className="mr-2 h-5 w-5 text-primary" />
+          Challenge a Player
+        </h3>
+        <div className="text-sm text-muted-foreground mb-4 flex items-center">
+          Your player ID: <code className="mx-1 text-foreground" data-testid="text-player-id">{userId}</code>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-1"
+            onClick={() => copyText(userId, 'player-id')}
+            data-testid="button-copy-player-id"
+          >
+            {copiedCode === 'player-id' ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          </Button>
+        </div>
+
+        {incoming.length > 0 && (
+          <div className="mb-6 space-y-2" data-testid="incoming-challenges">
+            {incoming.map((challenge: any) => (
+              <div key={challenge.id} className="flex items-center justify-between bg-accent rounded-lg p-3">
+                <div className="text-sm">
+                  <span className="font-semibold">{getDisplayName(challenge.challenger)}</span>
+                  <span className="text-muted-foreground"> ({challenge.challenger.elo}) challenges you</span>
+                  <div className="text-xs text-muted-foreground">
+                    {GAME_MODES[challenge.gameMode as GameMode].name} · {formatTimeControl(challenge.timeLimit, challenge.timeIncrement)} · {challenge.rated ? 'Rated' : 'Unrated'}
+                    {challenge.blindJudging && ' · Blind judging'}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button size="sm" onClick={() => onAccept(challenge.id)} data-testid={`button-accept-challenge-${challenge.id}`}>
+                    Accept
+                  </Button>
+                  <Button size="sm" variant="secondary" onClick={() => onDecline(challenge.id)} data-testid={`button-decline-challenge-${challenge.id}`}>
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {judgeInvites.length > 0 && (
+          <div className="mb-6 space-y-2" data-testid="judge-invites">
+            {judgeInvites.map((challenge: any) => (
+              <div key={challenge.id} className="flex items-center justify-between bg-accent rounded-lg p-3">
+                <div className="text-sm">
+                  <span className="font-semibold">{getDisplayName(challenge.challenger)}</span>
+                  <span className="text-muted-foreground"> asks you to judge their challenge</span>
+                  <div className="text-xs text-muted-foreground">
+                    {GAME_MODES[challenge.gameMode as GameMode].name} · {formatTimeControl(challenge.timeLimit, challenge.timeIncrement)} · {challenge.rated ? 'Rated' : 'Unrated'}
+                    {challenge.blindJudging && ' · Blind judging'}
+                    {challenge.status === 'accepted' && ' · The players are waiting'}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button size="sm" onClick={() => onJudgeAnswer(challenge.id, true)} data-testid={`button-accept-judging-${challenge.id}`}>
+                    Accept
+                  </Button>
+                  <Button size="sm" variant="secondary" onClick={() => onJudgeAnswer(challenge.id, false)} data-testid={`button-decline-judging-${challenge.id}`}>
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-left">
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="challenged-id">Opponent's player ID</Label>
+            <Input
+              id="challenged-id"
+              value={challengedId}
+              onChange={(e) => setChallengedId(e.target.value)}
+              placeholder="Leave blank for an invite link"
+              data-testid="input-challenged-id"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Game mode</Label>
+            <Select
+              value={gameMode}
+              onValueChange={(value) => {
+                // Start from the mode's own clock, which can still be changed
+                setGameMode(value as GameMode);
+                setTimeControl(GAME_MODES[value as GameMode].timeControl);
+              }}
+            >
+              <SelectTrigger data-testid="select-challenge-game-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(GAME_MODES).map(([id, mode]) => (
+                  <SelectItem key={id} value={id}>
+                    {mode.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Time control</Label>
+            <Select value={timeControl} onValueChange={(value) => setTimeControl(value as TimeControlId)}>
+              <SelectTrigger data-testid="select-time-control">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TIME_CONTROLS).map(([id, control]) => (
+                  <SelectItem key={id} value={id}>
+                    {control.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="judge1-id">Judges (optional)</Label>
+            <Input
+              id="judge1-id"
+              value={judge1Id}
+              onChange={(e) => setJudge1Id(e.target.value)}
+              placeholder="First judge's player ID"
+              data-testid="input-judge1-id"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="judge2-id" className="invisible">Second judge</Label>
+            <Input
+              id="judge2-id"
+              value={judge2Id}
+              onChange={(e) => setJudge2Id(e.target.value)}
+              placeholder="Second judge's player ID"
+              data-testid="input-judge2-id"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="rated" checked={rated} onCheckedChange={setRated} data-testid="switch-rated" />
+            <Label htmlFor="rated">Counts for rating</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="blind-judging" checked={blindJudging} onCheckedChange={setBlindJudging} data-testid="switch-blind-judging" />
+            <Label htmlFor="blind-judging">Blind judging</Label>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          {namingJudges && !judgesComplete
+            ? "Name both judges, or leave both blank to take judges from the queue."
+            : namingJudges
+              ? "Named judges have to accept too. If either declines or doesn't answer in time, judges join from the judge queue."
+              : "Without named judges, two judges join from the judge queue once your challenge is accepted."}
+        </p>
+        <Button
+          className="w-full mt-4"
+          onClick={handleCreate}
+          disabled={isCreating || (namingJudges && !judgesComplete)}
+          data-testid="button-create-challenge"
+        >
+          {challengedId.trim() ? "Send Challenge" : "Create Invite Link"}
+        </Button>
+
+        {outgoing.length > 0 && (
+          <div className="mt-6 space-y-2" data-testid="outgoing-challenges">
+            <h4 className="text-sm font-semibold">Your open challenges</h4>
+            {outgoing.map((challenge: any) => (
+              <div key={challenge.id} className="flex items-center justify-between text-sm border-b border-border py-2 last:border-b-0">
+                <div className="truncate mr-2">
+                  {challenge.inviteCode ? (
+                    <span className="text-muted-foreground">
+                      Invite link: <code className="text-foreground">{inviteLink(challenge.inviteCode)}</code>
+                    </span>
+                  ) : (
+                    <span>Waiting for {getDisplayName(challenge.challenged)} to respond</span>
+                  )}
+                  {challenge.judge1Id && (
+                    <span className="text-muted-foreground" data-testid={`text-judges-accepted-${challenge.id}`}>
+                      {' '}· {judgesAccepted(challenge)} of 2 judges accepted
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-shrink-0 space-x-1">
+                  {challenge.inviteCode && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => copyText(inviteLink(challenge.inviteCode), challenge.id)}
+                      data-testid={`button-copy-invite-${challenge.id}`}
+                    >
+                      {copiedCode === challenge.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    title="Cancel challenge"
+                    onClick={() => onCancel(challenge.id)}
+                    data-testid={`button-cancel-challenge-${challenge.id}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Card, CardContent } from "@/components/ui/card";
+import { Clock, Gavel, Home, Scale, ClipboardList, EyeOff } from "lucide-react";
+import { ratingIcons, ratingColors } from "@/lib/moveRatings";
+import ScenarioPanel from "@/components/ScenarioPanel";
+import { RUBRIC_CRITERIA, ratingFromCriteria } from "@shared/scoring";
+import type { RubricScores } from "@shared/schema";
+
+interface JudgeInterfaceProps {
+  match: any;
+  messages: any[];
+  timeRemaining: number;
+  onRateMessage: (messageId: string, judgement: { rating?: string; criteria?: RubricScores }) => void;
+  ratingMessageId: string | null;
+  onSubmitVerdict: (verdict: 'player1' | 'player2' | 'draw') => void;
+  isSubmittingVerdict: boolean;
+  onRespondToRematch: (accept: boolean) => void;
+  isHandlingRematch: boolean;
+  onReturnHome: () => void;
+  formatTime: (seconds: number) => string;
+}
+
+export default function JudgeInterface({
+  match,
+  messages,
+  timeRemaining,
+  onRateMessage,
+  ratingMessageId,
+  onSubmitVerdict,
+  isSubmittingVerdict,
+  onRespondToRematch,
+  isHandlingRematch,
+  onReturnHome,
+  formatTime,
+}: JudgeInterfaceProps) {
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [rubricMessageId, setRubricMessageId] = useState<string | null>(null);
+  const [rubricScores, setRubricScores] = useState<Partial<RubricScores>>({});
+  const isRubricComplete = RUBRIC_CRITERIA.every(({ key }) => rubricScores[key] !== undefined);
+  const isMatchOver = match.status !== 'active';
+  const unratedCount = messages.filter((msg: any) => !msg.myRating).length;
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length]);
+
+  const getDisplayName = (playerUser: any) => {
+    if (playerUser?.firstName || playerUser?.lastName) {
+      return `${playerUser.firstName || ''} ${playerUser.lastName || ''}`.trim();
+    }
+    return playerUser?.email?.split('@')[0] || 'Player';
+  };
+
+  const getInitials = (playerUser: any) => {
+    const name = getDisplayName(playerUser);
+    return name.split(' ').map((n: string) => n[0]).join('').toUpperCase().slice(0, 2);
+  };
+
+  const toggleRubric = (messageId: string) => {
+    setRubricMessageId(rubricMessageId === messageId ? null : messageId);
+    setRubricScores({});
+  };
+
+  const submitRubric = (messageId: string) => {
+    onRateMessage(messageId, { criteria: rubricScores as RubricScores });
+    setRubricMessageId(null);
+    setRubricScores({});
+  };
+
+  const renderRubric = (message: any, isPlayer1: boolean) => (
+    <div className={`mt-2 inline-block rounded-lg border border-border p-3 text-left text-sm ${isPlayer1 ? '' : 'ml-auto'}`} data-testid={`rubric-${message.id}`}>
+      {RUBRIC_CRITERIA.map(({ key, label }) => (
+        <div key={key} className="flex items-center justify-between space-x-3 mb-1">
+          <span className="text-muted-foreground w-20">{label}</span>
+          <div className="flex space-x-1">
+            {[1, 2, 3, 4, 5].map(score => (
+              <Button
+                key={score}
+                variant={rubricScores[key] === score ? "default" : "ghost"}
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => setRubricScores({ ...rubricScores, [key]: score })}
+                data-testid={`button-rubric-${key}-${score}`}
+              >
+                {score}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ))}
+      <Button
+        size="sm"
+        className="w-full mt-2"
+        disabled={!isRubricComplete || ratingMessageId === message.id}
+        onClick={() => submitRubric(message.id)}
+        data-testid="button-submit-rubric"
+      >
+        {isRubricComplete
+          ? <>Submit as <span className="ml-1 capitalize">{ratingFromCriteria(rubricScores as RubricScores)}</span></>
+          : "Score all four criteria"}
+      </Button>
+    </div>
+  );
+
+  const renderPlayer = (playerUser: any, testId: string) => (
+    <div className="flex items-center space-x-2">
+      <Avatar className="h-8 w-8">
+        <AvatarImage src={playerUser.profileImageUrl || undefined} />
+        <AvatarFallback className="text-xs">
+          {getInitials(playerUser)}
+        </AvatarFallback>
+      </Avatar>
+      <span className="font-semibold" data-testid={`text-${testId}-name`}>
+        {getDisplayName(playerUser)}
+      </span>
+      {playerUser.elo != null && (
+        <span className="text-primary" data-testid={`text-${testId}-elo`}>
+          ({playerUser.elo})
+        </span>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Card className="border-border overflow-hidden">
+        {/* Match Header */}
+        <div className="bg-accent border-b border-border p-4" data-testid="judge-header">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              {renderPlayer(match.player1, "player1")}
+              <span className="text-muted-foreground">vs</span>
+              {renderPlayer(match.player2, "player2")}
+            </div>
+
+            <div className="flex items-center space-x-4">
+              <span className="flex items-center text-sm font-semibold text-amber-500" data-testid="text-judge-mode">
+                {match.isBlind ? <EyeOff className="mr-1 h-4 w-4" /> : <Gavel className="mr-1 h-4 w-4" />}
+                {match.isBlind ? "Blind judging" : "Judging"}
+              </span>
+              <div className="bg-primary text-primary-foreground px-3 py-1 rounded-lg font-mono text-lg">
+                <Clock className="inline mr-1 h-4 w-4" />
+                <span data-testid="text-time-remaining">{formatTime(timeRemaining)}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {match.scenario && (
+          <ScenarioPanel
+            scenario={match.scenario}
+            player1Name={getDisplayName(match.player1)}
+            player2Name={getDisplayName(match.player2)}
+          />
+        )}
+
+        {/* Messages Area */}
+        <div className="h-96 overflow-y-auto p-4 space-y-4" data-testid="messages-container">
+          {messages.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">
+              <p>No messages yet. Moves will appear here as the players send them.</p>
+            </div>
+          ) : (
+            messages.map((message: any, index: number) => {
+              const isPlayer1 = message.user.id === match.player1.id;
+
+              return (
+                <div
+                  key={message.id}
+                  className={`flex items-start space-x-3 ${isPlayer1 ? '' : 'flex-row-reverse'}`}
+                  data-testid={`message-${index}`}
+                >
+                  <div className="flex-shrink-0">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={message.user.profileImageUrl || undefined} />
+                      <AvatarFallback className="text-xs">
+                        {getInitials(message.user)}
+                      </AvatarFallback>
+                    </Avatar>
+                  </div>
+                  <div className={`flex-1 ${isPlayer1 ? '' : 'text-right'}`}>
+                    <div className="font-semibold mb-1">
+                      {getDisplayName(message.user)}
+                    </div>
+                    <div className={`rounded-lg p-3 inline-block max-w-xs ${
+                      isPlayer1
+                        ? 'bg-primary text-primary-foreground rounded-tl-none'
+                        : 'bg-secondary text-secondary-foreground rounded-tr-none'
+                    }`}>
+                      {message.content}
+                    </div>
+                    <div className={`flex flex-wrap gap-1 mt-2 ${isPlayer1 ? '' : 'justify-end'}`} data-testid={`rating-controls-${index}`}>
+                      {Object.entries(ratingIcons).map(([rating, IconComponent]) => {
+                        const isSelected = message.myRating === rating;
+                        return (
+                          <Button
+                            key={rating}
+                            variant={isSelected ? "secondary" : "ghost"}
+                            size="sm"
+                            title={rating}
+                            disabled={!!message.myRating || ratingMessageId === message.id}
+                            onClick={() => onRateMessage(message.id, { rating })}
+                            className="h-7 px-2"
+                            data-testid={`button-rate-${rating}-${index}`}
+                          >
+                            <IconComponent className={`h-4 w-4 ${ratingColors[rating as keyof typeof ratingColors]}`} />
+                            {isSelected && (
+                              <span className={`ml-1 text-xs capitalize ${ratingColors[rating as keyof typeof ratingColors]}`}>
+                                {rating}
+                              </span>
+                            )}
+                          </Button>
+                        );
+                      })}
+                      {!message.myRating && (
+                        <Button
+                          variant={rubricMessageId === message.id ? "secondary" : "ghost"}
+                          size="sm"
+                          title="Score with rubric"
+                          onClick={() => toggleRubric(message.id)}
+                          className="h-7 px-2"
+                          data-testid={`button-rubric-toggle-${index}`}
+                        >
+                          <ClipboardList className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    {rubricMessageId === message.id && !message.myRating && renderRubric(message, isPlayer1)}
+                  </div>
+                </div>
+              );
+            })
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+
+        {/* Verdict Area */}
+        {match.status === 'pending_verdict' && (
+          <div className="border-t border-border p-4 bg-accent" data-testid="verdict-panel">
+            <h4 className="font-semibold mb-1 flex items-center">
+              <Scale className="mr-2 h-4 w-4 text-amber-500" />
+              Who won this match?
+            </h4>
+            <p className="text-sm text-muted-foreground mb-3">
+              {match.myVerdict
+                ? "Verdict submitted. Waiting for the other judge..."
+                : match.scoreDecidesWinner
+                  ? "Time is up. Your move ratings decide the winner - your verdict only counts if the scores are tied."
+                  : "Time is up. Cast your verdict before the deadline - if the judges split, the higher-rated judge decides."}
+            </p>
+            <div className="flex space-x-2">
+              {([
+                ['player1', getDisplayName(match.player1)],
+                ['draw', 'Draw'],
+                ['player2', getDisplayName(match.player2)],
+              ] as const).map(([verdict, label]) => (
+                <Button
+                  key={verdict}
+                  variant={match.myVerdict === verdict ? "default" : "secondary"}
+                  disabled={!!match.myVerdict || isSubmittingVerdict}
+                  onClick={() => onSubmitVerdict(verdict)}
+                  className="flex-1"
+                  data-testid={`button-verdict-${verdict}`}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Rematch Area */}
+        {match.rematch?.status === 'pending' && (
+          <div className="border-t border-border p-4 bg-accent flex items-center justify-between text-sm" data-testid="rematch-panel">
+            {match.rematch.myAnswer === null ? (
+              <>
+                <span>The players want a rematch. Will you judge it too?</span>
+                <div className="flex flex-shrink-0 space-x-2 ml-2">
+                  <Button size="sm" onClick={() => onRespondToRematch(true)} disabled={isHandlingRematch} data-testid="button-accept-rematch">
+                    Judge again
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => onRespondToRematch(false)} disabled={isHandlingRematch} data-testid="button-decline-rematch">
+                    No thanks
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <span className="text-muted-foreground">
+                {match.rematch.myAnswer
+                  ? "You'll judge the rematch if the other judge agrees and both players accept."
+                  : "Judges from the queue will take your place in the rematch."}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Status Area */}
+        <div className="border-t border-border p-4 flex items-center justify-between" data-testid="judge-status">
+          <span className="text-sm text-muted-foreground">
+            {isMatchOver
+              ? unratedCount > 0
+                ? `Match over - ${unratedCount} message${unratedCount === 1 ? '' : 's'} left to rate`
+                : "Match over - all messages rated. Thanks for judging!"
+              : unratedCount > 0
+                ? `${unratedCount} message${unratedCount === 1 ? '' : 's'} waiting for your rating`
+                : "All caught up - waiting for the next move..."}
+          </span>
+          {isMatchOver && (
+            <Button
+              onClick={onReturnHome}
+              variant="secondary"
+              size="sm"
+              data-testid="button-return-home"
+            >
+              <Home className="mr-2 h-4 w-4" />
+              Return to Dashboard
+            </Button>
+          )}
+        </div>
+      </Card>
+
+      {/* Move Ratings Legend */}
+      <Card className="mt-6 border-border">
+        <CardContent className="p-4">
+          <h4 className="font-semibold mb-3" data-testid="title-rating-system">
+            Move Rating System
+          </h4>
+          <div className="grid grid-cols-2 md:grid-cols-7 gap-2 text-sm">
+            {Object.entries(ratingIcons).map(([rating, IconComponent]) => (
+              <div key={rating} className="flex items-center space-x-1" data-testid={`rating-${rating}`}>
+                <IconComponent className={`h-4 w-4 ${ratingColors[rating as keyof typeof ratingColors]}`} />
+                <span className={`font-medium capitalize ${ratingColors[rating as keyof typeof ratingColors]}`}>
+                  {rating}
+                </span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,7 +3,12 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card, CardContent } from "@/components/ui/card";
-import { Clock, Flag, Send, Crown, Star, ThumbsUp, Check, Minus, AlertTriangle, X } from "lucide-react";
+import { Clock, Flag, Gavel, Handshake, Send } from "lucide-react";
+import { ratingIcons, ratingColors } from "@/lib/moveRatings";
+import ScenarioPanel from "@/components/ScenarioPanel";
+import { formatTimeControl } from "@shared/timeControls";
+import { GAME_MODES } from "@shared/gameModes";
+import type { GameMode } from "@shared/schema";
 
 interface MatchInterfaceProps {
   match: any;
@@ -11,46 +16,38 @@ interface MatchInterfaceProps {
   user: any;
   opponent: any;
   isYourTurn: boolean;
-  timeRemaining: number;
+  clocks: { player1: number; player2: number } | null; // milliseconds
   onSendMessage: (content: string) => void;
   onForfeit: () => void;
+  onMakeOffer: (type: 'draw' | 'end_early') => void;
+  onRespondToOffer: (accept: boolean) => void;
+  isHandlingOffer: boolean;
   isSending: boolean;
   formatTime: (seconds: number) => string;
 }
 
-const ratingIcons = {
-  brilliant: Crown,
-  great: Star,
-  excellent: ThumbsUp,
-  good: Check,
-  miss: Minus,
-  mistake: AlertTriangle,
-  blunder: X,
-};
-
-const ratingColors = {
-  brilliant: 'text-yellow-400',
-  great: 'text-green-500',
-  excellent: 'text-cyan-400',
-  good: 'text-purple-500',
-  miss: 'text-orange-500',
-  mistake: 'text-red-500',
-  blunder: 'text-red-600',
-};
-
 export default function MatchInterface({
   match,
   messages,
   user,
   opponent,
   isYourTurn,
-  timeRemaining,
+  clocks,
   onSendMessage,
   onForfeit,
+  onMakeOffer,
+  onRespondToOffer,
+  isHandlingOffer,
   isSending,
   formatTime,
 }: MatchInterfaceProps) {
   const [messageInput, setMessageInput] = useState("");
+  const userSlot = match.player1.id === user.id ? 'player1' : 'player2';
+  const opponentSlot = userSlot === 'player1' ? 'player2' : 'player1';
+  const mode = GAME_MODES[match.gameMode as GameMode];
+  const messagesLeft = mode.messagesPerPlayer !== null
+    ? mode.messagesPerPlayer - messages.filter((message: any) => message.user.id === user.id).length
+    : null;
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -81,6 +78,17 @@ export default function MatchInterface({
     return name.split(' ').map((n: string) => n[0]).join('').toUpperCase().slice(0, 2);
   };
 
+  const renderClock = (slot: 'player1' | 'player2', running: boolean, testId: string) => (
+    <div
+      className={`px-3 py-1 rounded-lg font-mono text-lg ${
+        running ? 'bg-primary text-primary-foreground' : 'bg-secondary text-muted-foreground'
+      }`}
+    >
+      {running && <Clock className="inline mr-1 h-4 w-4" />}
+      <span data-testid={testId}>{formatTime(Math.ceil((clocks?.[slot] ?? 0) / 1000))}</span>
+    </div>
+  );
+
   const renderRating = (rating: string | null) => {
     if (!rating) return null;
     
@@ -117,6 +125,7 @@ export default function MatchInterface({
                 <span className="text-primary" data-testid="text-player1-elo">
                   ({user.elo})
                 </span>
+                {renderClock(userSlot, isYourTurn, "text-time-remaining")}
               </div>
               <span className="text-muted-foreground">vs</span>
               <div className="flex items-center space-x-2">
@@ -132,14 +141,36 @@ export default function MatchInterface({
                 <span className="text-primary" data-testid="text-player2-elo">
                   ({opponent.elo})
                 </span>
+                {renderClock(opponentSlot, !isYourTurn, "text-opponent-time-remaining")}
               </div>
             </div>
             
             <div className="flex items-center space-x-4">
-              <div className="bg-primary text-primary-foreground px-3 py-1 rounded-lg font-mono text-lg">
-                <Clock className="inline mr-1 h-4 w-4" />
-                <span data-testid="text-time-remaining">{formatTime(timeRemaining)}</span>
-              </div>
+              <span className="text-sm text-muted-foreground" data-testid="text-time-control">
+                {mode.name} · {formatTimeControl(match.timeLimit, match.timeIncrement)}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Offer a draw"
+                onClick={() => onMakeOffer('draw')}
+                disabled={!isYourTurn || !!match.offerType || isHandlingOffer}
+                className="text-muted-foreground"
+                data-testid="button-offer-draw"
+              >
+                <Handshake className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Offer to end now and let the judges decide"
+                onClick={() => onMakeOffer('end_early')}
+                disabled={!isYourTurn || !!match.offerType || isHandlingOffer}
+                className="text-muted-foreground"
+                data-testid="button-offer-end-early"
+              >
+                <Gavel className="h-4 w-4" />
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
@@ -152,6 +183,43 @@ export default function MatchInterface({
             </div>
           </div>
         </div>
+
+        {match.offerType && (
+          <div className="bg-secondary border-b border-border p-3 flex items-center justify-between text-sm" data-testid="match-offer">
+            {match.offeredBy === user.id ? (
+              <span className="text-muted-foreground">
+                {match.offerType === 'draw'
+                  ? `You offered a draw. Waiting for ${getDisplayName(opponent)} to answer...`
+                  : `You offered to end the match and let the judges decide. Waiting for ${getDisplayName(opponent)} to answer...`}
+              </span>
+            ) : (
+              <>
+                <span>
+                  {match.offerType === 'draw'
+                    ? `${getDisplayName(opponent)} offers a draw.`
+                    : `${getDisplayName(opponent)} offers to end the match and let the judges decide.`}
+                  <span className="text-muted-foreground"> Sending a message declines it.</span>
+                </span>
+                <div className="flex flex-shrink-0 space-x-2 ml-2">
+                  <Button size="sm" onClick={() => onRespondToOffer(true)} disabled={isHandlingOffer} data-testid="button-accept-offer">
+                    Accept
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => onRespondToOffer(false)} disabled={isHandlingOffer} data-testid="button-decline-offer">
+                    Decline
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {match.scenario && (
+          <ScenarioPanel
+            scenario={match.scenario}
+            player1Name={userSlot === 'player1' ? 'You' : getDisplayName(opponent)}
+            player2Name={userSlot === 'player2' ? 'You' : getDisplayName(opponent)}
+          />
+        )}
         
         {/* Messages Area */}
         <div className="h-96 overflow-y-auto p-4 space-y-4" data-testid="messages-container">
@@ -216,7 +284,8 @@ export default function MatchInterface({
                   value={messageInput}
                   onChange={(e) => setMessageInput(e.target.value)}
                   className="flex-1 resize-none h-20"
-                  disabled={!isYourTurn || isSending}
+                  maxLength={mode.maxMessageLength ?? undefined}
+                  disabled={!isYourTurn || isSending || messagesLeft === 0}
                   data-testid="input-message"
                 />
                 <Button
@@ -228,14 +297,21 @@ export default function MatchInterface({
                   <Send className="h-4 w-4" />
                 </Button>
               </div>
-              <div className="text-xs text-muted-foreground mt-2">
-                {isYourTurn ? (
+              <div className="text-xs text-muted-foreground mt-2 flex justify-between">
+                {messagesLeft === 0 ? (
+                  <span>You've sent all your messages. The judges decide once your opponent finishes.</span>
+                ) : isYourTurn ? (
                   <span>
                     <span className="text-primary">Your turn</span> - AI will evaluate: Strategy, Psychology, Clarity, Impact
                   </span>
                 ) : (
                   <span>Waiting for opponent's move...</span>
                 )}
+                <span data-testid="text-message-limits">
+                  {messagesLeft !== null && `${messagesLeft} message${messagesLeft === 1 ? '' : 's'} left`}
+                  {messagesLeft !== null && mode.maxMessageLength !== null && ' · '}
+                  {mode.maxMessageLength !== null && `${messageInput.length}/${mode.maxMessageLength}`}
+                </span>
               </div>
             </div>
           </form>
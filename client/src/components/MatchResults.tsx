@@ -1,12 +1,23 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Trophy, RotateCcw, Home } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Trophy, RotateCcw, Home, Flag, Repeat } from "lucide-react";
+import { ratingColors } from "@/lib/moveRatings";
+import { isVerdictAppealable } from "@shared/appeals";
 
 interface MatchResultsProps {
   match: any;
   user: any;
   opponent: any;
   messages: any[];
+  appeals: any[];
+  onFileAppeal: (appeal: { messageId?: string; reason: string }) => void;
+  isFilingAppeal: boolean;
+  onRequestRematch: (swapFirstMove: boolean) => void;
+  onRespondToRematch: (accept: boolean) => void;
+  isHandlingRematch: boolean;
   onPlayAgain: () => void;
   onReturnHome: () => void;
 }
@@ -16,9 +27,16 @@ export default function MatchResults({
   user,
   opponent,
   messages,
+  appeals,
+  onFileAppeal,
+  isFilingAppeal,
+  onRequestRematch,
+  onRespondToRematch,
+  isHandlingRematch,
   onPlayAgain,
   onReturnHome,
 }: MatchResultsProps) {
+  const [swapFirstMove, setSwapFirstMove] = useState(true);
   const isWinner = match.winnerId === user.id;
   const isDraw = !match.winnerId;
   
@@ -48,6 +66,88 @@ export default function MatchResults({
   const userRatings = getRatingCounts(userMessages);
   const opponentRatings = getRatingCounts(opponentMessages);
 
+  const userScore = user.id === match.player1.id ? match.player1Score : match.player2Score;
+  const opponentScore = opponent.id === match.player1.id ? match.player1Score : match.player2Score;
+
+  const appealStatusLabels: Record<string, string> = {
+    under_review: 'Appeal under review',
+    upheld: 'Appeal upheld',
+    overturned: 'Overturned on appeal',
+    expired: 'Appeal expired without a decision',
+  };
+
+  // Players see only their own appeals; one per message plus one for the verdict
+  const findAppeal = (messageId: string | null) =>
+    appeals.find((appeal: any) => appeal.appellantId === user.id && appeal.messageId === messageId);
+  const verdictAppeal = findAppeal(null);
+
+  const requestAppeal = (messageId?: string) => {
+    const reason = window.prompt(messageId
+      ? "Why should this rating be reviewed? (at least 10 characters)"
+      : "Why should the verdict be reviewed? (at least 10 characters)");
+    if (reason && reason.trim().length >= 10) {
+      onFileAppeal({ messageId, reason: reason.trim() });
+    }
+  };
+
+  const renderAppealControl = (msg: any, testId: string) => {
+    const appeal = findAppeal(msg.id);
+    if (appeal) {
+      return (
+        <span className="ml-2 text-muted-foreground" data-testid={`${testId}-appeal-status`}>
+          {appealStatusLabels[appeal.status]}
+        </span>
+      );
+    }
+    if (msg.points === null) return null;
+
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="ml-1 h-5 px-1"
+        title="Appeal this rating"
+        disabled={isFilingAppeal}
+        onClick={() => requestAppeal(msg.id)}
+        data-testid={`${testId}-button-appeal`}
+      >
+        <Flag className="h-3 w-3" />
+      </Button>
+    );
+  };
+
+  const renderBreakdown = (playerMessages: any[], testId: string) => {
+    if (playerMessages.length === 0) return null;
+
+    return (
+      <div className="mt-3 max-h-32 overflow-y-auto space-y-1 text-xs" data-testid={`${testId}-breakdown`}>
+        {playerMessages.map((msg: any, index: number) => (
+          <div key={msg.id} className="flex items-center justify-between" data-testid={`${testId}-move-${index}`}>
+            <span className="truncate mr-2 text-muted-foreground">
+              {index + 1}. {msg.content}
+            </span>
+            <span className="flex-shrink-0">
+              {msg.consensus === 'unrated' || msg.points === null ? (
+                <span className="text-muted-foreground">Awaiting rating</span>
+              ) : (
+                <>
+                  <span className={`capitalize ${msg.rating ? ratingColors[msg.rating as keyof typeof ratingColors] : 'text-muted-foreground'}`}>
+                    {msg.rating || 'Judges split'}
+                  </span>
+                  {msg.consensus === 'tiebreak' && (
+                    <span className="ml-1 text-muted-foreground">(AI tie-break)</span>
+                  )}
+                  <span className="ml-2 font-semibold">{Number(msg.points.toFixed(1))} pts</span>
+                </>
+              )}
+              {renderAppealControl(msg, `${testId}-move-${index}`)}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const getDisplayName = (playerUser: any) => {
     if (playerUser?.firstName || playerUser?.lastName) {
       return `${playerUser.firstName || ''} ${playerUser.lastName || ''}`.trim();
@@ -56,6 +156,9 @@ export default function MatchResults({
   };
 
   const calculateEloChange = () => {
+    const recordedChange = user.id === match.player1.id ? match.player1EloChange : match.player2EloChange;
+    if (recordedChange !== null && recordedChange !== undefined) return recordedChange;
+
     // Simplified ELO calculation for display
     if (isDraw) return 0;
     return isWinner ? 18 : -16;
@@ -64,6 +167,61 @@ export default function MatchResults({
   const eloChange = calculateEloChange();
   const newElo = user.elo + eloChange;
 
+  const renderRematch = () => {
+    const rematch = match.rematch;
+    if (!rematch) {
+      return (
+        <div className="flex items-center justify-between" data-testid="rematch-request">
+          <div className="flex items-center space-x-2">
+            <Switch id="swap-first-move" checked={swapFirstMove} onCheckedChange={setSwapFirstMove} data-testid="switch-swap-first-move" />
+            <Label htmlFor="swap-first-move" className="text-sm">Swap who moves first</Label>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => onRequestRematch(swapFirstMove)}
+            disabled={isHandlingRematch}
+            data-testid="button-request-rematch"
+          >
+            <Repeat className="mr-2 h-4 w-4" />
+            Rematch
+          </Button>
+        </div>
+      );
+    }
+
+    if (rematch.status === 'pending' && rematch.myAnswer === null) {
+      return (
+        <div className="flex items-center justify-between" data-testid="rematch-offer">
+          <span className="text-sm">
+            {getDisplayName(opponent)} wants a rematch{rematch.swapFirstMove ? ", swapping who moves first" : ""}.
+          </span>
+          <div className="flex flex-shrink-0 space-x-2 ml-2">
+            <Button size="sm" onClick={() => onRespondToRematch(true)} disabled={isHandlingRematch} data-testid="button-accept-rematch">
+              Accept
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => onRespondToRematch(false)} disabled={isHandlingRematch} data-testid="button-decline-rematch">
+              Decline
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    const statusText: Record<string, string> = {
+      pending: rematch.playersAccepted === 2
+        ? "Both players are in. Waiting for the judges to answer..."
+        : `Waiting for ${getDisplayName(opponent)} to accept the rematch...`,
+      accepted: "Starting the rematch...",
+      declined: "The rematch was declined.",
+      expired: "The rematch request expired.",
+    };
+    return (
+      <p className="text-center text-sm text-muted-foreground" data-testid="text-rematch-status">
+        {statusText[rematch.status]}
+      </p>
+    );
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" data-testid="match-results-modal">
       <Card className="w-full max-w-md shadow-2xl border-border mx-4">
@@ -78,6 +236,12 @@ export default function MatchResults({
               {isWinner ? 'Victory!' : isDraw ? 'Draw!' : 'Defeat!'}
             </h2>
             <p className="text-muted-foreground">Match completed</p>
+            {match.series && (
+              <p className="text-sm mt-1" data-testid="text-series-score">
+                Series after {match.series.games} games: You {match.series.wins[user.id] ?? 0} - {match.series.wins[opponent.id] ?? 0} {getDisplayName(opponent)}
+                {match.series.draws > 0 && ` (${match.series.draws} drawn)`}
+              </p>
+            )}
           </div>
           
           <div className="space-y-4 mb-6">
@@ -85,11 +249,11 @@ export default function MatchResults({
               <div className="flex justify-between items-center mb-2">
                 <span className="font-semibold">Your Performance</span>
                 <span className={`font-bold ${
-                  match.player1Score > match.player2Score ? 'text-green-500' : 
-                  match.player1Score < match.player2Score ? 'text-red-500' : 
+                  userScore > opponentScore ? 'text-green-500' : 
+                  userScore < opponentScore ? 'text-red-500' : 
                   'text-yellow-500'
                 }`}>
-                  {user.id === match.player1.id ? match.player1Score : match.player2Score}/10
+                  {userScore}/10
                 </span>
               </div>
               <div className="text-sm text-muted-foreground">
@@ -110,17 +274,18 @@ export default function MatchResults({
                   "No moves made"
                 }
               </div>
+              {renderBreakdown(userMessages, "user")}
             </div>
             
             <div className="bg-accent rounded-lg p-4" data-testid="opponent-performance">
               <div className="flex justify-between items-center mb-2">
                 <span className="font-semibold">{getDisplayName(opponent)} Performance</span>
                 <span className={`font-bold ${
-                  match.player1Score < match.player2Score ? 'text-green-500' : 
-                  match.player1Score > match.player2Score ? 'text-red-500' : 
+                  opponentScore > userScore ? 'text-green-500' : 
+                  opponentScore < userScore ? 'text-red-500' : 
                   'text-yellow-500'
                 }`}>
-                  {opponent.id === match.player1.id ? match.player1Score : match.player2Score}/10
+                  {opponentScore}/10
                 </span>
               </div>
               <div className="text-sm text-muted-foreground">
@@ -141,6 +306,7 @@ export default function MatchResults({
                   "No moves made"
                 }
               </div>
+              {renderBreakdown(opponentMessages, "opponent")}
             </div>
             
             <div className="bg-primary/10 border border-primary/20 rounded-lg p-4" data-testid="elo-change">
@@ -159,6 +325,25 @@ export default function MatchResults({
           </div>
           
           <div className="space-y-3">
+            {renderRematch()}
+            {isVerdictAppealable(match) && (
+              verdictAppeal ? (
+                <p className="text-center text-sm text-muted-foreground" data-testid="text-verdict-appeal-status">
+                  Verdict: {appealStatusLabels[verdictAppeal.status]}
+                </p>
+              ) : (
+                <Button
+                  onClick={() => requestAppeal()}
+                  variant="outline"
+                  className="w-full"
+                  disabled={isFilingAppeal}
+                  data-testid="button-appeal-verdict"
+                >
+                  <Flag className="mr-2 h-4 w-4" />
+                  Appeal Verdict
+                </Button>
+              )
+            )}
             <Button
               onClick={onPlayAgain}
               className="w-full font-semibold"
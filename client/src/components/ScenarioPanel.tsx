@@ -0,0 +1,41 @@
+import { BookOpen, Target } from "lucide-react";
+
+interface ScenarioPanelProps {
+  scenario: any;
+  player1Name: string;
+  player2Name: string;
+}
+
+export default function ScenarioPanel({ scenario, player1Name, player2Name }: ScenarioPanelProps) {
+  // Goals come back null for sides the viewer isn't allowed to see
+  const sides = [
+    { name: player1Name, role: scenario.player1Role, goal: scenario.player1Goal, slot: "player1" },
+    { name: player2Name, role: scenario.player2Role, goal: scenario.player2Goal, slot: "player2" },
+  ];
+
+  return (
+    <div className="border-b border-border p-4 text-sm" data-testid="scenario-panel">
+      <div className="font-semibold flex items-center mb-1" data-testid="text-scenario-title">
+        <BookOpen className="mr-2 h-4 w-4 text-primary" />
+        {scenario.title}
+      </div>
+      <p className="text-muted-foreground mb-3" data-testid="text-scenario-setup">{scenario.setup}</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {sides.map((side) => (
+          <div key={side.slot} className="bg-accent rounded-lg p-3" data-testid={`scenario-${side.slot}`}>
+            <div>
+              <span className="font-semibold">{side.role}</span>
+              <span className="text-muted-foreground"> · {side.name}</span>
+            </div>
+            {side.goal && (
+              <div className="flex items-start mt-1 text-muted-foreground">
+                <Target className="mr-1 mt-0.5 h-3 w-3 flex-shrink-0" />
+                <span>{side.goal}</span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { Crown, Star, ThumbsUp, Check, Minus, AlertTriangle, X } from "lucide-react";
+
+export const ratingIcons = {
+  brilliant: Crown,
+  great: Star,
+  excellent: ThumbsUp,
+  good: Check,
+  miss: Minus,
+  mistake: AlertTriangle,
+  blunder: X,
+};
+
+export const ratingColors = {
+  brilliant: 'text-yellow-400',
+  great: 'text-green-500',
+  excellent: 'text-cyan-400',
+  good: 'text-purple-500',
+  miss: 'text-orange-500',
+  mistake: 'text-red-500',
+  blunder: 'text-red-600',
+};
@@ -0,0 +1,115 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import NavigationHeader from "@/components/NavigationHeader";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Swords } from "lucide-react";
+import { formatTimeControl } from "@shared/timeControls";
+import { GAME_MODES } from "@shared/gameModes";
+import type { GameMode } from "@shared/schema";
+
+export default function Challenge() {
+  const { inviteCode } = useParams<{ inviteCode: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: invite, isLoading, error } = useQuery<any>({
+    queryKey: ["/api/challenges/invite", inviteCode],
+    enabled: !!inviteCode,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/challenges/invite/${inviteCode}/accept`),
+    onSuccess: async (response) => {
+      const result = await response.json();
+      if (result.matchId) {
+        setLocation(`/match/${result.matchId}`);
+      }
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to accept the challenge",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getDisplayName = (playerUser: any) => {
+    if (playerUser?.firstName || playerUser?.lastName) {
+      return `${playerUser.firstName || ''} ${playerUser.lastName || ''}`.trim();
+    }
+    return 'A player';
+  };
+
+  const isOpen = invite?.status === 'pending' && new Date(invite.expiresAt).getTime() > Date.now();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+      <div className="max-w-md mx-auto px-4 py-16">
+        <Card className="border-border">
+          <CardContent className="p-6 text-center">
+            {isLoading ? (
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            ) : error || !invite ? (
+              <p className="text-muted-foreground" data-testid="text-invite-not-found">
+                This invite link is invalid.
+              </p>
+            ) : (
+              <>
+                <Swords className="h-10 w-10 text-primary mx-auto mb-4" />
+                <h2 className="text-2xl font-bold mb-2" data-testid="text-invite-title">
+                  {getDisplayName(invite.challenger)} challenges you
+                </h2>
+                <p className="text-muted-foreground mb-6">
+                  {GAME_MODES[invite.gameMode as GameMode].name} · {formatTimeControl(invite.timeLimit, invite.timeIncrement)} · {invite.rated ? 'Rated' : 'Unrated'}
+                  {invite.blindJudging && ' · Blind judging'}
+                  <br />
+                  {invite.namedJudges ? 'Judges chosen by the challenger' : 'Judges from the judge queue'}
+                </p>
+                {isOpen ? (
+                  <Button
+                    className="w-full font-semibold"
+                    onClick={() => acceptMutation.mutate()}
+                    disabled={acceptMutation.isPending}
+                    data-testid="button-accept-invite"
+                  >
+                    Accept Challenge
+                  </Button>
+                ) : (
+                  <p className="text-muted-foreground" data-testid="text-invite-closed">
+                    This challenge is no longer open.
+                  </p>
+                )}
+                <Button
+                  variant="secondary"
+                  className="w-full mt-3"
+                  onClick={() => setLocation("/")}
+                  data-testid="button-return-home"
+                >
+                  Return to Dashboard
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
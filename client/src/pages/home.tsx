@@ -6,9 +6,16 @@ import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import NavigationHeader from "@/components/NavigationHeader";
+import AppealReviewCard from "@/components/AppealReviewCard";
+import ChallengeCard from "@/components/ChallengeCard";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Play, Clock, Trophy, Target, Users } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Play, Clock, Trophy, Target, Users, Shuffle } from "lucide-react";
+import { RUBRIC_CRITERIA } from "@shared/scoring";
+import { GAME_MODES, DEFAULT_GAME_MODE } from "@shared/gameModes";
+import { formatTimeControl, TIME_CONTROLS } from "@shared/timeControls";
+import type { GameMode } from "@shared/schema";
 
 export default function Home() {
   const [, setLocation] = useLocation();
@@ -16,6 +23,8 @@ export default function Home() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const [isQueuing, setIsQueuing] = useState(false);
   const [queueTime, setQueueTime] = useState(0);
+  const [readyCheck, setReadyCheck] = useState<any>(null);
+  const [gameMode, setGameMode] = useState<GameMode>(DEFAULT_GAME_MODE);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -47,6 +56,36 @@ export default function Home() {
     retry: false,
   });
 
+  // Get per-criterion rubric averages for the player's messages
+  const { data: rubricStats } = useQuery<any>({
+    queryKey: ["/api/users/rubric-stats"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  // Get rolling judge agreement
+  const { data: judgeStats } = useQuery<any>({
+    queryKey: ["/api/users/judge-stats"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  // Get appeals this user has been asked to review
+  const { data: assignedAppeals = [] } = useQuery<any[]>({
+    queryKey: ["/api/appeals/assigned"],
+    enabled: isAuthenticated,
+    refetchInterval: 30000,
+    retry: false,
+  });
+
+  // Get challenges sent to or by this user
+  const { data: challenges = [] } = useQuery<any[]>({
+    queryKey: ["/api/challenges"],
+    enabled: isAuthenticated,
+    refetchInterval: 5000,
+    retry: false,
+  });
+
   // Get leaderboard
   const { data: leaderboard = [] } = useQuery({
     queryKey: ["/api/leaderboard"],
@@ -55,15 +94,23 @@ export default function Home() {
 
   // Queue mutations
   const joinQueueMutation = useMutation({
-    mutationFn: (matchType: 'player' | 'judge' = 'player') => 
-      apiRequest("POST", "/api/queue/join", { matchType }),
+    mutationFn: (matchType: 'player' | 'judge' | 'flex' = 'player') => 
+      apiRequest("POST", "/api/queue/join", { matchType, gameMode }),
     onSuccess: async (response) => {
       const result = await response.json();
       if (result.success && result.matchId) {
         setLocation(`/match/${result.matchId}`);
       } else if (result.success) {
+        // Forget the status from any earlier queue session
+        queryClient.removeQueries({ queryKey: ["/api/queue/status"] });
         setIsQueuing(true);
         setQueueTime(0);
+      } else if (result.error) {
+        toast({
+          title: "Can't join queue",
+          description: result.error,
+          variant: "destructive",
+        });
       }
     },
     onError: (error) => {
@@ -107,6 +154,183 @@ export default function Home() {
     },
   });
 
+  const readyCheckMutation = useMutation({
+    mutationFn: ({ matchId, action }: { matchId: string; action: 'accept' | 'decline' }) =>
+      apiRequest("POST", `/api/matches/${matchId}/ready-check/${action}`),
+    onSuccess: (_response, { action }) => {
+      if (action === 'accept') {
+        setReadyCheck((current: any) => current && { ...current, accepted: true, readyCount: current.readyCount + 1 });
+        return;
+      }
+      setReadyCheck(null);
+      setIsQueuing(false);
+      setQueueTime(0);
+      toast({
+        title: "Match declined",
+        description: "The others are back in the queue. You can queue again in a couple of minutes.",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "This match is no longer available",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const appealReviewMutation = useMutation({
+    mutationFn: ({ appealId, review }: { appealId: string; review: { rating?: string; verdict?: string } }) =>
+      apiRequest("POST", `/api/appeals/${appealId}/review`, review),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appeals/assigned"] });
+      toast({
+        title: "Review submitted",
+        description: "Thanks for serving on the appeal panel.",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to submit review",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Get queue position and what the match is waiting on
+  const { data: queueStatus } = useQuery<any>({
+    queryKey: ["/api/queue/status"],
+    enabled: isAuthenticated && isQueuing,
+    refetchInterval: 3000,
+    retry: false,
+  });
+
+  const createChallengeMutation = useMutation({
+    mutationFn: (settings: any) => apiRequest("POST", "/api/challenges", settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+      toast({
+        title: "Challenge created",
+        description: "We'll start the match as soon as it's accepted.",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to create challenge",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const challengeActionMutation = useMutation({
+    mutationFn: ({ challengeId, action }: { challengeId: string; action: 'accept' | 'decline' | 'cancel' }) =>
+      apiRequest("POST", `/api/challenges/${challengeId}/${action}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/matches/active"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update challenge",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const judgeInviteMutation = useMutation({
+    mutationFn: ({ challengeId, accept }: { challengeId: string; accept: boolean }) =>
+      apiRequest("POST", `/api/challenges/${challengeId}/judge`, { accept }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/matches/active"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to answer judge invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The server drops queue entries that stop polling, e.g. from a sleeping laptop, and
+  // doesn't requeue anyone who let a ready check run out
+  useEffect(() => {
+    if (isQueuing && queueStatus && !queueStatus.inQueue && !queueStatus.matched) {
+      const missedReadyCheck = queueStatus.cooldownUntil && new Date(queueStatus.cooldownUntil).getTime() > Date.now();
+      setIsQueuing(false);
+      setQueueTime(0);
+      setReadyCheck(null);
+      toast(missedReadyCheck
+        ? {
+            title: "Match not accepted",
+            description: "You didn't accept the match in time. You can queue again in a couple of minutes.",
+          }
+        : {
+            title: "Removed from queue",
+            description: "You were away too long. Join again when you're ready.",
+          });
+    }
+  }, [isQueuing, queueStatus, toast]);
+
   // Poll for matches while queuing
   const { refetch: pollForMatch } = useQuery({
     queryKey: ["/api/queue/poll"],
@@ -128,8 +352,20 @@ export default function Home() {
         if (response.data) {
           const result = response.data as any;
           if (result.success && result.matchId) {
+            // Flex entries only learn their role once the match starts
+            if (queueStatus?.matchType === 'flex' && result.role) {
+              toast({
+                title: result.role === 'judge' ? "You're judging this match" : "You're playing this match",
+                description: "The matchmaker picked the role this match needed.",
+              });
+            }
             setIsQueuing(false);
+            setReadyCheck(null);
             setLocation(`/match/${result.matchId}`);
+          } else {
+            // A ready check that disappears without a match fell through, and the
+            // queue status shows whether we went back in line
+            setReadyCheck(result.readyCheck ?? null);
           }
         }
       } catch (error) {
@@ -141,7 +377,7 @@ export default function Home() {
       clearInterval(timer);
       clearInterval(pollTimer);
     };
-  }, [isQueuing, pollForMatch, setLocation]);
+  }, [isQueuing, pollForMatch, setLocation, queueStatus?.matchType, toast]);
 
   // Redirect to active match if exists
   useEffect(() => {
@@ -158,6 +394,10 @@ export default function Home() {
     joinQueueMutation.mutate('judge');
   };
 
+  const handleJoinAsFlex = () => {
+    joinQueueMutation.mutate('flex');
+  };
+
   const handleCancelQueue = () => {
     leaveQueueMutation.mutate();
   };
@@ -173,6 +413,11 @@ export default function Home() {
     return Math.round((wins / totalMatches) * 100);
   };
 
+  const getResultColors = (match: any) =>
+    match.isWinner ? { dot: 'bg-green-500', text: 'text-green-500' }
+      : match.isDraw ? { dot: 'bg-yellow-500', text: 'text-yellow-500' }
+      : { dot: 'bg-red-500', text: 'text-red-500' };
+
   const getUserRank = (userElo: number, leaderboard: any[]) => {
     const rank = leaderboard.findIndex(player => player.elo <= userElo) + 1;
     return rank || leaderboard.length + 1;
@@ -209,6 +454,21 @@ export default function Home() {
                 
                 {!isQueuing ? (
                   <div className="mb-6 space-y-4">
+                    <Select value={gameMode} onValueChange={(value) => setGameMode(value as GameMode)}>
+                      <SelectTrigger data-testid="select-game-mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(GAME_MODES).map(([id, mode]) => {
+                          const timeControl = TIME_CONTROLS[mode.timeControl];
+                          return (
+                            <SelectItem key={id} value={id}>
+                              {mode.name} ({formatTimeControl(timeControl.base, timeControl.increment)}) - {mode.description}
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
                     <Button 
                       onClick={handleStartMatchmaking}
                       disabled={joinQueueMutation.isPending}
@@ -228,6 +488,57 @@ export default function Home() {
                       <Trophy className="mr-2 h-5 w-5" />
                       PLAY AS JUDGE
                     </Button>
+                    <Button 
+                      onClick={handleJoinAsFlex}
+                      disabled={joinQueueMutation.isPending}
+                      variant="outline"
+                      className="w-full px-8 py-4 text-xl font-bold hover:scale-105 transition-all duration-200"
+                      data-testid="button-either-role"
+                    >
+                      <Shuffle className="mr-2 h-5 w-5" />
+                      EITHER ROLE
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                      Either role gets you matched faster - you'll play or judge, whichever the next match needs.
+                    </p>
+                  </div>
+                ) : readyCheck ? (
+                  <div className="bg-accent rounded-lg p-6 border border-primary" data-testid="ready-check">
+                    <div className="flex items-center justify-center space-x-3 mb-2">
+                      <Users className="text-primary h-5 w-5" />
+                      <span className="text-lg font-semibold" data-testid="text-match-found">
+                        {readyCheck.role === 'judge' ? "Match found - you're judging" : "Match found - you're playing"}
+                      </span>
+                    </div>
+                    <p className="text-muted-foreground mb-4" data-testid="text-ready-count">
+                      {readyCheck.readyCount} of {readyCheck.total} ready
+                      {readyCheck.deadline && (
+                        <> · {Math.max(0, Math.ceil((new Date(readyCheck.deadline).getTime() - Date.now()) / 1000))}s left</>
+                      )}
+                    </p>
+                    {readyCheck.accepted ? (
+                      <p className="text-sm text-muted-foreground" data-testid="text-waiting-for-ready">
+                        Waiting for everyone to accept...
+                      </p>
+                    ) : (
+                      <div className="flex justify-center space-x-3">
+                        <Button
+                          onClick={() => readyCheckMutation.mutate({ matchId: readyCheck.matchId, action: 'accept' })}
+                          disabled={readyCheckMutation.isPending}
+                          data-testid="button-accept-match"
+                        >
+                          Accept
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          onClick={() => readyCheckMutation.mutate({ matchId: readyCheck.matchId, action: 'decline' })}
+                          disabled={readyCheckMutation.isPending}
+                          data-testid="button-decline-match"
+                        >
+                          Decline
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className="animate-pulse-glow bg-accent rounded-lg p-6 border border-primary">
@@ -236,14 +547,38 @@ export default function Home() {
                         <Target className="text-primary h-5 w-5" />
                       </div>
                       <span className="text-lg font-semibold" data-testid="text-searching">
-                        Searching for opponent...
+                        {queueStatus?.matchType === 'judge'
+                          ? "Waiting for a match to judge..."
+                          : queueStatus?.matchType === 'flex'
+                            ? "Searching for a match..."
+                            : "Searching for opponent..."}
                       </span>
                     </div>
-                    <p className="text-muted-foreground mb-4">
-                      Looking for players with ELO {user.elo - 150}-{user.elo + 150}
+                    <p className="text-muted-foreground mb-1" data-testid="text-waiting-on">
+                      {queueStatus?.waitingOn || "Joining queue..."}
                     </p>
-                    <div className="text-sm text-muted-foreground">
-                      Queue time: <span data-testid="text-queue-time">{formatTime(queueTime)}</span>
+                    {queueStatus?.eloRange && (
+                      <p className="text-sm text-muted-foreground mb-4">
+                        Looking for players with ELO {queueStatus.eloRange.min}-{queueStatus.eloRange.max}
+                      </p>
+                    )}
+                    <div className="flex justify-center space-x-6 text-sm text-muted-foreground mt-3">
+                      {queueStatus?.position && (
+                        <span>
+                          Position: <span className="font-semibold text-foreground" data-testid="text-queue-position">#{queueStatus.position}</span>
+                        </span>
+                      )}
+                      <span>
+                        Estimated wait:{' '}
+                        <span className="font-semibold text-foreground" data-testid="text-estimated-wait">
+                          {queueStatus?.estimatedWaitTime != null
+                            ? `~${formatTime(Math.ceil(queueStatus.estimatedWaitTime / 1000))}`
+                            : 'unknown'}
+                        </span>
+                      </span>
+                      <span>
+                        Queue time: <span data-testid="text-queue-time">{formatTime(queueTime)}</span>
+                      </span>
                     </div>
                     <Button 
                       variant="destructive"
@@ -259,6 +594,17 @@ export default function Home() {
               </CardContent>
             </Card>
             
+            <ChallengeCard
+              userId={user.id}
+              challenges={challenges}
+              onCreateChallenge={(settings) => createChallengeMutation.mutate(settings)}
+              isCreating={createChallengeMutation.isPending}
+              onAccept={(challengeId) => challengeActionMutation.mutate({ challengeId, action: 'accept' })}
+              onDecline={(challengeId) => challengeActionMutation.mutate({ challengeId, action: 'decline' })}
+              onCancel={(challengeId) => challengeActionMutation.mutate({ challengeId, action: 'cancel' })}
+              onJudgeAnswer={(challengeId, accept) => judgeInviteMutation.mutate({ challengeId, accept })}
+            />
+
             {/* Recent Matches */}
             <Card className="mt-8 border-border">
               <CardContent className="p-6">
@@ -278,7 +624,7 @@ export default function Home() {
                         data-testid={`match-result-${index}`}
                       >
                         <div className="flex items-center space-x-3">
-                          <div className={`w-2 h-2 rounded-full ${match.isWinner ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                          <div className={`w-2 h-2 rounded-full ${getResultColors(match).dot}`}></div>
                           <div>
                             <span className="font-medium">
                               vs {match.opponent.firstName || 'Unknown Player'}
@@ -289,13 +635,14 @@ export default function Home() {
                           </div>
                         </div>
                         <div className="text-right">
-                          <div className={`font-semibold ${match.isWinner ? 'text-green-500' : 'text-red-500'}`}>
-                            {match.isWinner ? 'Victory' : 'Defeat'}
-                          </div>
-                          <div className="text-sm text-muted-foreground">
-                            {match.isWinner ? '+' : '-'}
-                            {Math.abs(Math.round((match.isWinner ? 1 : -1) * 18))} ELO
+                          <div className={`font-semibold ${getResultColors(match).text}`}>
+                            {match.isWinner ? 'Victory' : match.isDraw ? 'Draw' : 'Defeat'}
                           </div>
+                          {match.eloChange !== null && (
+                            <div className="text-sm text-muted-foreground">
+                              {match.eloChange > 0 ? '+' : ''}{match.eloChange} ELO
+                            </div>
+                          )}
                         </div>
                       </div>
                     ))
@@ -307,6 +654,12 @@ export default function Home() {
           
           {/* Sidebar Stats */}
           <div className="space-y-6">
+            <AppealReviewCard
+              reviews={assignedAppeals}
+              onSubmitReview={(appealId, review) => appealReviewMutation.mutate({ appealId, review })}
+              submittingAppealId={appealReviewMutation.isPending ? appealReviewMutation.variables?.appealId ?? null : null}
+            />
+
             {/* Player Stats */}
             <Card className="border-border">
               <CardContent className="p-6">
@@ -332,7 +685,14 @@ export default function Home() {
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Win Rate</span>
                         <span className="font-semibold text-green-500" data-testid="text-win-rate">
-                          {calculateWinRate(user.wins, user.totalMatches)}%
+                          {/* Draws count as half a win, as they do for ELO */}
+                          {calculateWinRate(user.wins + user.draws / 2, user.totalMatches)}%
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Record (W-D-L)</span>
+                        <span className="font-semibold" data-testid="text-record">
+                          {user.wins}-{user.draws}-{user.losses}
                         </span>
                       </div>
                       <div className="flex justify-between">
@@ -344,6 +704,31 @@ export default function Home() {
                     </div>
                   </div>
                   
+                  {rubricStats?.ratedMessages > 0 && (
+                    <div className="border-b border-border pb-3 mb-3" data-testid="rubric-stats">
+                      <h4 className="text-sm font-semibold text-muted-foreground mb-2">Judge Rubric Averages</h4>
+                      <div className="space-y-2">
+                        {RUBRIC_CRITERIA.map(({ key, label }) => {
+                          const average = rubricStats[key];
+                          const isWeakest = average != null && RUBRIC_CRITERIA.every(
+                            other => rubricStats[other.key] == null || rubricStats[other.key] >= average
+                          );
+                          return (
+                            <div key={key} className="flex justify-between">
+                              <span className="text-muted-foreground">
+                                {label}
+                                {isWeakest && <span className="ml-2 text-xs text-orange-500">work on this</span>}
+                              </span>
+                              <span className="font-semibold" data-testid={`text-rubric-${key}`}>
+                                {average != null ? `${average.toFixed(1)}/5` : '—'}
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
                   <div>
                     <h4 className="text-sm font-semibold text-muted-foreground mb-2">Judge Stats</h4>
                     <div className="space-y-2">
@@ -365,6 +750,22 @@ export default function Home() {
                           {calculateWinRate(user.judgeAgreements || 0, user.totalJudgeMatches || 0)}%
                         </span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground" title={`Weighted kappa over your last ${judgeStats?.sampleSize ?? 0} rated messages`}>
+                          Rating Kappa
+                        </span>
+                        <span className="font-semibold text-blue-500" data-testid="text-judge-kappa">
+                          {judgeStats?.kappa != null ? judgeStats.kappa.toFixed(2) : '—'}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Calibration Accuracy</span>
+                        <span className="font-semibold text-blue-500" data-testid="text-calibration-accuracy">
+                          {user.calibrationRatings > 0
+                            ? `${calculateWinRate(user.calibrationScore, user.calibrationRatings)}%`
+                            : '—'}
+                        </span>
+                      </div>
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Judge Matches</span>
                         <span className="font-semibold" data-testid="text-judge-matches">
@@ -6,8 +6,11 @@ import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import NavigationHeader from "@/components/NavigationHeader";
+import { Button } from "@/components/ui/button";
 import MatchInterface from "@/components/MatchInterface";
 import MatchResults from "@/components/MatchResults";
+import JudgeInterface from "@/components/JudgeInterface";
+import type { RubricScores } from "@shared/schema";
 
 export default function Match() {
   const { matchId } = useParams<{ matchId: string }>();
@@ -15,7 +18,8 @@ export default function Match() {
   const { toast } = useToast();
   const { user, isAuthenticated, isLoading } = useAuth();
   const [showResults, setShowResults] = useState(false);
-  const [timeRemaining, setTimeRemaining] = useState(300); // 5 minutes
+  const [clocks, setClocks] = useState<{ player1: number; player2: number } | null>(null); // milliseconds
+  const [ratingMessageId, setRatingMessageId] = useState<string | null>(null);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -33,7 +37,7 @@ export default function Match() {
   }, [isAuthenticated, isLoading, toast]);
 
   // Get match data
-  const { data: match, isLoading: matchLoading } = useQuery({
+  const { data: match, isLoading: matchLoading, dataUpdatedAt, error: matchError } = useQuery<any>({
     queryKey: ["/api/matches", matchId],
     enabled: !!matchId && isAuthenticated,
     refetchInterval: 2000,
@@ -41,13 +45,21 @@ export default function Match() {
   });
 
   // Get match messages
-  const { data: messages = [], refetch: refetchMessages } = useQuery({
+  const { data: messages = [], refetch: refetchMessages } = useQuery<any[]>({
     queryKey: ["/api/matches", matchId, "messages"],
     enabled: !!matchId && isAuthenticated,
     refetchInterval: 1000,
     retry: false,
   });
 
+  // Get appeals filed on this match once it's over
+  const { data: appeals = [] } = useQuery<any[]>({
+    queryKey: ["/api/matches", matchId, "appeals"],
+    enabled: !!matchId && isAuthenticated && showResults,
+    refetchInterval: 10000,
+    retry: false,
+  });
+
   // Send message mutation
   const sendMessageMutation = useMutation({
     mutationFn: (content: string) => 
@@ -76,6 +88,95 @@ export default function Match() {
     },
   });
 
+  // Judge rating mutation
+  const rateMessageMutation = useMutation({
+    mutationFn: ({ messageId, judgement }: { messageId: string; judgement: { rating?: string; criteria?: RubricScores } }) =>
+      apiRequest("POST", `/api/messages/${messageId}/rate`, judgement),
+    onMutate: ({ messageId }) => {
+      setRatingMessageId(messageId);
+    },
+    onSettled: () => {
+      setRatingMessageId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/matches", matchId, "messages"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to submit rating",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Judge verdict mutation
+  const verdictMutation = useMutation({
+    mutationFn: (verdict: 'player1' | 'player2' | 'draw') =>
+      apiRequest("POST", `/api/matches/${matchId}/verdict`, { verdict }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/matches", matchId] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to submit verdict",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Appeal mutation
+  const appealMutation = useMutation({
+    mutationFn: (appeal: { messageId?: string; reason: string }) =>
+      apiRequest("POST", `/api/matches/${matchId}/appeals`, appeal),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/matches", matchId, "appeals"] });
+      toast({
+        title: "Appeal filed",
+        description: "A panel of experienced judges will review it.",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to file appeal",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Forfeit mutation
   const forfeitMutation = useMutation({
     mutationFn: () => apiRequest("POST", `/api/matches/${matchId}/forfeit`),
@@ -103,12 +204,144 @@ export default function Match() {
     },
   });
 
+  const cancelMatchMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/matches/${matchId}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/matches/active"] });
+      setLocation("/");
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to cancel match",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Rematch mutations
+  const rematchMutation = useMutation({
+    mutationFn: (swapFirstMove: boolean) =>
+      apiRequest("POST", `/api/matches/${matchId}/rematch`, { swapFirstMove }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/matches", matchId] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to request rematch",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const respondToRematchMutation = useMutation({
+    mutationFn: (accept: boolean) =>
+      apiRequest("POST", `/api/matches/${matchId}/rematch/respond`, { accept }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/matches", matchId] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "This rematch is no longer open",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Draw and end-early offer mutations
+  const offerMutation = useMutation({
+    mutationFn: (type: 'draw' | 'end_early') =>
+      apiRequest("POST", `/api/matches/${matchId}/offer`, { type }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/matches", matchId] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to make offer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const respondToOfferMutation = useMutation({
+    mutationFn: (accept: boolean) =>
+      apiRequest("POST", `/api/matches/${matchId}/offer/respond`, { accept }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/matches", matchId] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "This offer is no longer open",
+        variant: "destructive",
+      });
+    },
+  });
+
   // End match mutation
   const endMatchMutation = useMutation({
     mutationFn: () => apiRequest("POST", `/api/matches/${matchId}/end`),
     onSuccess: () => {
+      // Results show once the judges' verdict completes the match
       queryClient.invalidateQueries({ queryKey: ["/api/matches", matchId] });
-      setShowResults(true);
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -125,27 +358,42 @@ export default function Match() {
     },
   });
 
-  // Timer logic
+  // Clock logic: the server reports both clocks as of each fetch, and the clock of the
+  // player to move keeps running down locally until the next one. mutate is stable
+  // across renders, unlike the mutation object itself.
+  const { mutate: claimTimeout } = endMatchMutation;
   useEffect(() => {
-    if (!match || match.status !== 'active' || !match.startedAt) return;
+    if (!match?.clocks) return;
 
-    const startTime = new Date(match.startedAt).getTime();
-    const duration = match.timeLimit * 1000; // Convert to milliseconds
+    const snapshot = { clocks: match.clocks, fetchedAt: dataUpdatedAt };
+    const isActive = match.status === 'active';
+    const toMove = match.currentTurn === match.player1?.id ? 'player1'
+      : match.currentTurn === match.player2?.id ? 'player2'
+      : null;
 
-    const timer = setInterval(() => {
-      const elapsed = Date.now() - startTime;
-      const remaining = Math.max(0, Math.floor((duration - elapsed) / 1000));
-      setTimeRemaining(remaining);
+    const tick = () => {
+      const next = { ...snapshot.clocks };
+      if (toMove && isActive) {
+        next[toMove] = Math.max(0, next[toMove] - (Date.now() - snapshot.fetchedAt));
+      }
+      // Keep the previous object when nothing changed so no extra render is queued
+      setClocks(prev => prev && prev.player1 === next.player1 && prev.player2 === next.player2 ? prev : next);
+      return toMove ? next[toMove] : null;
+    };
 
-      if (remaining === 0) {
-        // Time's up, end the match
-        endMatchMutation.mutate();
+    tick();
+    if (!isActive) return;
+
+    const timer = setInterval(() => {
+      if (tick() === 0) {
+        // Flag fell, the server confirms and ends the match
+        claimTimeout();
         clearInterval(timer);
       }
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [match, endMatchMutation]);
+  }, [match?.clocks, match?.status, match?.currentTurn, match?.player1?.id, match?.player2?.id, dataUpdatedAt, claimTimeout]);
 
   // Check if match is completed
   useEffect(() => {
@@ -154,12 +402,36 @@ export default function Match() {
     }
   }, [match]);
 
+  // Everyone taking part in the rematch moves on to it once it starts
+  useEffect(() => {
+    if (match?.rematch?.newMatchId) {
+      setShowResults(false);
+      setLocation(`/match/${match.rematch.newMatchId}`);
+    }
+  }, [match?.rematch?.newMatchId, setLocation]);
+
+  // A match still waiting for judges disappears once the other player cancels it or it times out
+  useEffect(() => {
+    if (match?.status === 'waiting' && matchError && /^404: /.test(matchError.message)) {
+      toast({
+        title: "Match cancelled",
+        description: "The match was called off before it started.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/matches/active"] });
+      setLocation("/");
+    }
+  }, [match?.status, matchError, toast, setLocation]);
+
   const handleSendMessage = (content: string) => {
     if (content.trim()) {
       sendMessageMutation.mutate(content.trim());
     }
   };
 
+  const handleRateMessage = (messageId: string, judgement: { rating?: string; criteria?: RubricScores }) => {
+    rateMessageMutation.mutate({ messageId, judgement });
+  };
+
   const handleForfeit = () => {
     if (confirm("Are you sure you want to forfeit this match?")) {
       forfeitMutation.mutate();
@@ -193,17 +465,85 @@ export default function Match() {
     );
   }
 
-  if (!match.player2) {
+  // Accepted challenges and rematches wait here until their judges join; either player can call it off
+  if (!match.player2 || match.status === 'waiting') {
     return (
       <div className="min-h-screen bg-background">
         <NavigationHeader />
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="text-center">
-            <h2 className="text-2xl font-bold mb-4">Waiting for opponent...</h2>
+            <h2 className="text-2xl font-bold mb-4">
+              {match.player2 ? "Waiting for judges..." : "Waiting for opponent..."}
+            </h2>
             <p className="text-muted-foreground">
-              Please wait while we find you an opponent.
+              {match.player2
+                ? "The match starts as soon as both judges have joined."
+                : "Please wait while we find you an opponent."}
             </p>
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mt-4"></div>
+            <p className="text-sm text-muted-foreground mt-4">
+              Matches that haven't started within 10 minutes are called off.
+            </p>
+            <Button
+              variant="outline"
+              className="mt-4"
+              onClick={() => cancelMatchMutation.mutate()}
+              disabled={cancelMatchMutation.isPending}
+              data-testid="button-cancel-waiting-match"
+            >
+              Cancel Match
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (match.viewerRole === 'judge') {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+
+        <JudgeInterface
+          match={match}
+          messages={messages}
+          timeRemaining={clocks ? Math.ceil((match.currentTurn === match.player2?.id ? clocks.player2 : clocks.player1) / 1000) : 0}
+          onRateMessage={handleRateMessage}
+          ratingMessageId={ratingMessageId}
+          onSubmitVerdict={(verdict) => verdictMutation.mutate(verdict)}
+          isSubmittingVerdict={verdictMutation.isPending}
+          onRespondToRematch={(accept) => respondToRematchMutation.mutate(accept)}
+          isHandlingRematch={respondToRematchMutation.isPending}
+          onReturnHome={handleReturnHome}
+          formatTime={formatTime}
+        />
+      </div>
+    );
+  }
+
+  if (match.status === 'pending_verdict') {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="text-center" data-testid="text-awaiting-verdict">
+            <h2 className="text-2xl font-bold mb-4">Match over!</h2>
+            <p className="text-muted-foreground">
+              The judges are deciding the winner. Results will appear here shortly.
+            </p>
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mt-4"></div>
+            <p className="text-sm text-muted-foreground mt-4">
+              Matches that haven't started within 10 minutes are called off.
+            </p>
+            <Button
+              variant="outline"
+              className="mt-4"
+              onClick={() => cancelMatchMutation.mutate()}
+              disabled={cancelMatchMutation.isPending}
+              data-testid="button-cancel-waiting-match"
+            >
+              Cancel Match
+            </Button>
           </div>
         </div>
       </div>
@@ -223,9 +563,12 @@ export default function Match() {
         user={user}
         opponent={opponent}
         isYourTurn={isYourTurn}
-        timeRemaining={timeRemaining}
+        clocks={clocks}
         onSendMessage={handleSendMessage}
         onForfeit={handleForfeit}
+        onMakeOffer={(type) => offerMutation.mutate(type)}
+        onRespondToOffer={(accept) => respondToOfferMutation.mutate(accept)}
+        isHandlingOffer={offerMutation.isPending || respondToOfferMutation.isPending}
         isSending={sendMessageMutation.isPending}
         formatTime={formatTime}
       />
@@ -236,6 +579,12 @@ export default function Match() {
           user={user}
           opponent={opponent}
           messages={messages}
+          appeals={appeals}
+          onFileAppeal={(appeal) => appealMutation.mutate(appeal)}
+          isFilingAppeal={appealMutation.isPending}
+          onRequestRematch={(swapFirstMove) => rematchMutation.mutate(swapFirstMove)}
+          onRespondToRematch={(accept) => respondToRematchMutation.mutate(accept)}
+          isHandlingRematch={rematchMutation.isPending || respondToRematchMutation.isPending}
           onPlayAgain={handlePlayAgain}
           onReturnHome={handleReturnHome}
         />
@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { MatchmakingService } from "./services/matchmaking";
+import { GameEngine } from "./services/gameEngine";
+import { ScenarioService } from "./services/scenarios";
+import { AppealService } from "./services/appeals";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +71,10 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    ScenarioService.ensureDefaults();
+    GameEngine.backfillDrawStats();
+    MatchmakingService.start();
+    GameEngine.startTimeoutSweeper();
+    AppealService.startAppealSweeper();
   });
 })();
@@ -1,10 +1,34 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { ratingFromCriteria } from "@shared/scoring";
+import { getMatchClocks } from "@shared/timeControls";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { MatchmakingService } from "./services/matchmaking";
 import { GameEngine } from "./services/gameEngine";
-import { insertMessageSchema } from "@shared/schema";
+import { CalibrationService } from "./services/calibration";
+import { AppealService } from "./services/appeals";
+import { BlindJudgingService } from "./services/blindJudging";
+import { ChallengeService } from "./services/challenges";
+import { ReadyCheckService } from "./services/readyCheck";
+import { ScenarioService } from "./services/scenarios";
+import { RematchService } from "./services/rematches";
+import {
+  insertMessageSchema,
+  insertGoldMessageSchema,
+  insertScenarioSchema,
+  rateMessageSchema,
+  submitVerdictSchema,
+  fileAppealSchema,
+  submitAppealReviewSchema,
+  createChallengeSchema,
+  respondToJudgeInviteSchema,
+  joinQueueSchema,
+  matchOfferSchema,
+  respondToOfferSchema,
+  requestRematchSchema,
+  respondToRematchSchema,
+} from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
@@ -26,8 +50,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/queue/join', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { matchType = 'player' } = req.body;
-      const result = await MatchmakingService.joinQueue(userId, matchType);
+
+      const validation = joinQueueSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid queue request" });
+      }
+
+      const { matchType, gameMode } = validation.data;
+      const result = await MatchmakingService.joinQueue(userId, matchType, gameMode);
       res.json(result);
     } catch (error) {
       console.error("Error joining queue:", error);
@@ -60,12 +90,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/queue/poll', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
-      const result = await MatchmakingService.findMatch(userId, user.elo);
+      const result = await MatchmakingService.checkForMatch(userId);
       res.json(result);
     } catch (error) {
       console.error("Error polling for match:", error);
@@ -73,15 +98,219 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/matches/:matchId/ready-check/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await ReadyCheckService.accept(req.params.matchId, userId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error accepting ready check:", error);
+      res.status(500).json({ message: "Failed to accept match" });
+    }
+  });
+
+  app.post('/api/matches/:matchId/ready-check/decline', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await ReadyCheckService.decline(req.params.matchId, userId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error declining ready check:", error);
+      res.status(500).json({ message: "Failed to decline match" });
+    }
+  });
+
+  // Challenge routes
+  app.post('/api/challenges', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const validation = createChallengeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid challenge settings" });
+      }
+
+      const result = await ChallengeService.createChallenge(userId, validation.data);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result.challenge);
+    } catch (error) {
+      console.error("Error creating challenge:", error);
+      res.status(500).json({ message: "Failed to create challenge" });
+    }
+  });
+
+  app.get('/api/challenges', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const challenges = await storage.getUserChallenges(userId);
+      res.json(challenges);
+    } catch (error) {
+      console.error("Error fetching challenges:", error);
+      res.status(500).json({ message: "Failed to fetch challenges" });
+    }
+  });
+
+  app.get('/api/challenges/invite/:inviteCode', isAuthenticated, async (req: any, res) => {
+    try {
+      const challenge = await storage.getChallengeByInviteCode(req.params.inviteCode);
+      if (!challenge) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+
+      const challenger = await storage.getUser(challenge.challengerId);
+      res.json({
+        id: challenge.id,
+        status: challenge.status,
+        expiresAt: challenge.expiresAt,
+        timeLimit: challenge.timeLimit,
+        timeIncrement: challenge.timeIncrement,
+        gameMode: challenge.gameMode,
+        blindJudging: challenge.blindJudging,
+        rated: challenge.rated,
+        namedJudges: !!challenge.judge1Id,
+        challenger: {
+          id: challenger?.id,
+          firstName: challenger?.firstName,
+          lastName: challenger?.lastName,
+          elo: challenger?.elo,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching invite:", error);
+      res.status(500).json({ message: "Failed to fetch invite" });
+    }
+  });
+
+  app.post('/api/challenges/invite/:inviteCode/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const challenge = await storage.getChallengeByInviteCode(req.params.inviteCode);
+      if (!challenge) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+
+      const result = await ChallengeService.acceptChallenge(challenge, userId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error accepting invite:", error);
+      res.status(500).json({ message: "Failed to accept invite" });
+    }
+  });
+
+  app.post('/api/challenges/:challengeId/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const challenge = await storage.getChallenge(req.params.challengeId);
+      if (!challenge) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+
+      const result = await ChallengeService.acceptChallenge(challenge, userId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error accepting challenge:", error);
+      res.status(500).json({ message: "Failed to accept challenge" });
+    }
+  });
+
+  app.post('/api/challenges/:challengeId/decline', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const challenge = await storage.getChallenge(req.params.challengeId);
+      if (!challenge) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+
+      const declined = await ChallengeService.declineChallenge(challenge, userId);
+      if (!declined) {
+        return res.status(400).json({ message: "Challenge can't be declined" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error declining challenge:", error);
+      res.status(500).json({ message: "Failed to decline challenge" });
+    }
+  });
+
+  app.post('/api/challenges/:challengeId/judge', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const validation = respondToJudgeInviteSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid response" });
+      }
+
+      const challenge = await storage.getChallenge(req.params.challengeId);
+      if (!challenge) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+
+      const result = await ChallengeService.respondAsJudge(challenge, userId, validation.data.accept);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error answering judge invitation:", error);
+      res.status(500).json({ message: "Failed to answer invitation" });
+    }
+  });
+
+  app.post('/api/challenges/:challengeId/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const challenge = await storage.getChallenge(req.params.challengeId);
+      if (!challenge) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+
+      const cancelled = await ChallengeService.cancelChallenge(challenge, userId);
+      if (!cancelled) {
+        return res.status(400).json({ message: "Challenge can't be cancelled" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error cancelling challenge:", error);
+      res.status(500).json({ message: "Failed to cancel challenge" });
+    }
+  });
+
   // Match routes
   app.get('/api/matches/active', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const match = await storage.getUserActiveMatch(userId);
+      // Players of a match still waiting for judges are sent back to it too, so they can cancel it
+      const match = await storage.getUserActiveMatch(userId) ?? await storage.getUserWaitingMatch(userId);
       if (!match) {
         return res.json(null);
       }
       const matchWithPlayers = await storage.getMatchWithPlayers(match.id);
+      if (GameEngine.getParticipantRole(match, userId) === 'judge' && await BlindJudgingService.isBlindFor(match, userId)) {
+        return res.json(BlindJudgingService.anonymizeMatch(matchWithPlayers, match));
+      }
       res.json(matchWithPlayers);
     } catch (error) {
       console.error("Error getting active match:", error);
@@ -94,17 +323,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { matchId } = req.params;
       const userId = req.user.claims.sub;
       
-      const match = await storage.getMatchWithPlayers(matchId);
+      const match = await storage.getMatch(matchId);
       if (!match) {
         return res.status(404).json({ message: "Match not found" });
       }
 
-      // Check if user is part of this match
-      if (match.player1.id !== userId && match.player2?.id !== userId) {
+      // Players and assigned judges can view the match
+      const viewerRole = GameEngine.getParticipantRole(match, userId);
+      if (!viewerRole) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      res.json(match);
+      // Settle the verdict if the judges ran out of time
+      if (match.status === 'pending_verdict') {
+        await GameEngine.checkVerdictDeadline(matchId);
+      }
+
+      // Keep judges' votes private; each judge only sees their own
+      const { judge1Verdict, judge2Verdict, ...matchWithPlayers } = await storage.getMatchWithPlayers(matchId);
+      const myVerdict = match.judge1Id === userId ? judge1Verdict : match.judge2Id === userId ? judge2Verdict : null;
+      const isBlind = viewerRole === 'judge' && await BlindJudgingService.isBlindFor(match, userId);
+      const scenario = match.scenarioId ? await storage.getScenario(match.scenarioId) : undefined;
+      const isOver = match.status === 'completed' || match.status === 'forfeit';
+      res.json({
+        ...(isBlind ? BlindJudgingService.anonymizeMatch(matchWithPlayers, match) : matchWithPlayers),
+        isBlind,
+        viewerRole,
+        myVerdict,
+        scenario: scenario ? ScenarioService.viewFor(scenario, match, viewerRole, userId) : null,
+        rematch: isOver ? await RematchService.getStatus(match, userId) : null,
+        series: isOver ? await RematchService.getSeriesScore(match) : null,
+        clocks: getMatchClocks(match),
+        scoreDecidesWinner: GameEngine.SCORE_DECIDES_WINNER,
+      });
     } catch (error) {
       console.error("Error getting match:", error);
       res.status(500).json({ message: "Failed to get match" });
@@ -116,13 +367,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { matchId } = req.params;
       const userId = req.user.claims.sub;
 
-      // Verify user is part of this match
+      // Verify user is a player or judge in this match
       const match = await storage.getMatch(matchId);
-      if (!match || (match.player1Id !== userId && match.player2Id !== userId)) {
+      const viewerRole = match ? GameEngine.getParticipantRole(match, userId) : null;
+      if (!match || !viewerRole) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const messages = await storage.getMatchMessages(matchId);
+      const messages = await GameEngine.getScoredMessages(matchId);
+
+      // Judges see their own ratings so they know what is left to rate, and only
+      // see the consensus once they have rated so the other judge can't sway them
+      if (viewerRole === 'judge') {
+        const ratings = await storage.getJudgeRatingsForMatch(matchId, userId);
+        const ratingByMessage = new Map(ratings.map(r => [r.messageId, r.rating]));
+        const judgeMessages = messages.map(msg => {
+          const myRating = ratingByMessage.get(msg.id) ?? null;
+          return myRating
+            ? { ...msg, myRating }
+            : { ...msg, myRating, rating: null, points: null, consensus: null };
+        });
+
+        // Mix in any gold calibration messages due for this judge
+        const calibrationMessages = await CalibrationService.getJudgeItems(match, userId, messages);
+        const allMessages = [...judgeMessages, ...calibrationMessages].sort(
+          (a, b) => new Date(a.sentAt).getTime() - new Date(b.sentAt).getTime()
+        );
+
+        // Blind matches hide who wrote each message until this judge's ratings are locked
+        if (await BlindJudgingService.isBlindFor(match, userId)) {
+          return res.json(allMessages.map(msg => ({ ...msg, user: BlindJudgingService.anonymizeUser(msg.user, match) })));
+        }
+        return res.json(allMessages);
+      }
+
       res.json(messages);
     } catch (error) {
       console.error("Error getting match messages:", error);
@@ -148,7 +426,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await GameEngine.sendMessage(matchId, userId, validation.data.content);
       
       if (!result.success) {
-        return res.status(400).json({ message: result.error });
+        return res.status(result.conflict ? 409 : 400).json({ message: result.error });
       }
 
       res.json(result);
@@ -171,10 +449,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/matches/:matchId/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const { matchId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const result = await GameEngine.cancelWaitingMatch(matchId, userId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error cancelling match:", error);
+      res.status(500).json({ message: "Failed to cancel match" });
+    }
+  });
+
   app.post('/api/matches/:matchId/end', isAuthenticated, async (req: any, res) => {
     try {
       const { matchId } = req.params;
-      const result = await GameEngine.endMatch(matchId);
+      const result = await GameEngine.claimTimeout(matchId);
       res.json(result);
     } catch (error) {
       console.error("Error ending match:", error);
@@ -182,20 +477,266 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/matches/:matchId/offer', isAuthenticated, async (req: any, res) => {
+    try {
+      const { matchId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const validation = matchOfferSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid offer" });
+      }
+
+      const result = await GameEngine.makeOffer(matchId, userId, validation.data.type);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error making offer:", error);
+      res.status(500).json({ message: "Failed to make offer" });
+    }
+  });
+
+  app.post('/api/matches/:matchId/offer/respond', isAuthenticated, async (req: any, res) => {
+    try {
+      const { matchId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const validation = respondToOfferSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid response" });
+      }
+
+      const match = await storage.getMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      if (GameEngine.getParticipantRole(match, userId) !== 'player') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const result = await GameEngine.respondToOffer(matchId, userId, validation.data.accept);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error responding to offer:", error);
+      res.status(500).json({ message: "Failed to respond to offer" });
+    }
+  });
+
+  app.post('/api/matches/:matchId/rematch', isAuthenticated, async (req: any, res) => {
+    try {
+      const { matchId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const validation = requestRematchSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid rematch request" });
+      }
+
+      const match = await storage.getMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+
+      const result = await RematchService.requestRematch(match, userId, validation.data.swapFirstMove);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error requesting rematch:", error);
+      res.status(500).json({ message: "Failed to request rematch" });
+    }
+  });
+
+  app.post('/api/matches/:matchId/rematch/respond', isAuthenticated, async (req: any, res) => {
+    try {
+      const { matchId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const validation = respondToRematchSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid response" });
+      }
+
+      const match = await storage.getMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      if (!GameEngine.getParticipantRole(match, userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const result = await RematchService.respondToRematch(match, userId, validation.data.accept);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error answering rematch:", error);
+      res.status(500).json({ message: "Failed to answer rematch" });
+    }
+  });
+
   // Judge-specific routes
+  app.post('/api/matches/:matchId/verdict', isAuthenticated, async (req: any, res) => {
+    try {
+      const { matchId } = req.params;
+      const judgeId = req.user.claims.sub;
+
+      const validation = submitVerdictSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid verdict" });
+      }
+
+      const match = await storage.getMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      if (GameEngine.getParticipantRole(match, judgeId) !== 'judge') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const result = await GameEngine.submitVerdict(matchId, judgeId, validation.data.verdict);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error submitting verdict:", error);
+      res.status(500).json({ message: "Failed to submit verdict" });
+    }
+  });
+
+  app.post('/api/matches/:matchId/appeals', isAuthenticated, async (req: any, res) => {
+    try {
+      const { matchId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const validation = fileAppealSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Appeals need a reason of 10 to 1000 characters" });
+      }
+
+      const { messageId, reason } = validation.data;
+      const result = await AppealService.fileAppeal(matchId, userId, reason, messageId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result.appeal);
+    } catch (error) {
+      console.error("Error filing appeal:", error);
+      res.status(500).json({ message: "Failed to file appeal" });
+    }
+  });
+
+  app.get('/api/matches/:matchId/appeals', isAuthenticated, async (req: any, res) => {
+    try {
+      const { matchId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const match = await storage.getMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      if (!GameEngine.getParticipantRole(match, userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const appeals = await storage.getMatchAppeals(matchId);
+      res.json(appeals);
+    } catch (error) {
+      console.error("Error fetching appeals:", error);
+      res.status(500).json({ message: "Failed to fetch appeals" });
+    }
+  });
+
+  app.get('/api/appeals/assigned', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const reviews = await AppealService.getAssignedReviews(userId);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching assigned appeals:", error);
+      res.status(500).json({ message: "Failed to fetch assigned appeals" });
+    }
+  });
+
+  app.post('/api/appeals/:appealId/review', isAuthenticated, async (req: any, res) => {
+    try {
+      const { appealId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const validation = submitAppealReviewSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid review" });
+      }
+
+      const result = await AppealService.submitReview(appealId, userId, validation.data);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error submitting appeal review:", error);
+      res.status(500).json({ message: "Failed to submit review" });
+    }
+  });
+
   app.post('/api/messages/:messageId/rate', isAuthenticated, async (req: any, res) => {
     try {
       const { messageId } = req.params;
       const judgeId = req.user.claims.sub;
-      const { rating, explanation } = req.body;
 
-      // Use the game engine to process the judge rating
-      const result = await GameEngine.processJudgeRating(messageId, judgeId, rating, explanation);
+      const validation = rateMessageSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid rating" });
+      }
+
+      // Rubric scores, when given, determine the overall rating
+      const { criteria, explanation } = validation.data;
+      const rating = criteria ? ratingFromCriteria(criteria) : validation.data.rating!;
+
+      let result: { success: boolean; eloUpdated?: boolean; alreadyRated?: boolean };
+      const message = await storage.getMessage(messageId);
+      if (message) {
+        // Only the judges assigned to this message's match may rate it
+        const match = await storage.getMatch(message.matchId);
+        if (!match || GameEngine.getParticipantRole(match, judgeId) !== 'judge') {
+          return res.status(403).json({ message: "Only assigned judges can rate this message" });
+        }
+
+        // Use the game engine to process the judge rating
+        result = await GameEngine.processJudgeRating(messageId, judgeId, rating, explanation, criteria);
+      } else {
+        // Calibration messages are rated here too, with the same responses, so judges can't spot them
+        const calibrationItem = await storage.getCalibrationItem(messageId);
+        if (!calibrationItem || calibrationItem.judgeId !== judgeId) {
+          return res.status(404).json({ message: "Message not found" });
+        }
+
+        result = await CalibrationService.processRating(calibrationItem, rating);
+      }
       
+      if (result.alreadyRated) {
+        return res.status(409).json({ message: "You have already rated this message" });
+      }
+
       if (result.success) {
         res.json({ 
           success: true, 
-          eloUpdated: result.eloUpdated,
+          eloUpdated: result.eloUpdated ?? false,
           message: result.eloUpdated ? "Rating submitted. Judge ELOs updated based on agreement." : "Rating submitted. Waiting for other judge."
         });
       } else {
@@ -207,6 +748,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin routes
+  app.post('/api/admin/gold-messages', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user?.isAdmin) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const validation = insertGoldMessageSchema
+        .pick({ content: true, referenceRating: true, explanation: true })
+        .safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid gold message" });
+      }
+
+      const goldMessage = await storage.createGoldMessage({ ...validation.data, createdBy: userId });
+      res.json(goldMessage);
+    } catch (error) {
+      console.error("Error creating gold message:", error);
+      res.status(500).json({ message: "Failed to create gold message" });
+    }
+  });
+
+  app.post('/api/admin/scenarios', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user?.isAdmin) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const validation = insertScenarioSchema
+        .pick({ title: true, setup: true, player1Role: true, player2Role: true, player1Goal: true, player2Goal: true })
+        .safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid scenario" });
+      }
+
+      const scenario = await storage.createScenario({ ...validation.data, createdBy: userId });
+      res.json(scenario);
+    } catch (error) {
+      console.error("Error creating scenario:", error);
+      res.status(500).json({ message: "Failed to create scenario" });
+    }
+  });
+
+  app.get('/api/admin/matchmaking-stats', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user?.isAdmin) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const repeatPairings = await MatchmakingService.getRepeatPairingStats();
+      res.json({ repeatPairings });
+    } catch (error) {
+      console.error("Error fetching matchmaking stats:", error);
+      res.status(500).json({ message: "Failed to fetch matchmaking stats" });
+    }
+  });
+
+  app.get('/api/admin/matches/:matchId/judge-assignments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user?.isAdmin) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const assignments = await storage.getMatchJudgeAssignments(req.params.matchId);
+      res.json(assignments);
+    } catch (error) {
+      console.error("Error fetching judge assignments:", error);
+      res.status(500).json({ message: "Failed to fetch judge assignments" });
+    }
+  });
+
   // User stats routes
   app.get('/api/users/recent-matches', isAuthenticated, async (req: any, res) => {
     try {
@@ -219,6 +839,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/users/judge-stats', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const stats = await GameEngine.getJudgeKappa(userId);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error getting judge stats:", error);
+      res.status(500).json({ message: "Failed to get judge stats" });
+    }
+  });
+
+  app.get('/api/users/rubric-stats', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const averages = await storage.getPlayerRubricAverages(userId);
+      res.json(averages);
+    } catch (error) {
+      console.error("Error getting rubric stats:", error);
+      res.status(500).json({ message: "Failed to get rubric stats" });
+    }
+  });
+
   app.get('/api/leaderboard', async (req, res) => {
     try {
       const topPlayers = await storage.getTopPlayers(10);
@@ -0,0 +1,279 @@
+import { storage } from "../storage";
+import { GameEngine } from "./gameEngine";
+import { MOVE_RATING_POINTS, medianRating } from "@shared/scoring";
+import { isVerdictAppealable } from "@shared/appeals";
+import type { Appeal, AppealReview, Match, MatchVerdict, MoveRating } from "@shared/schema";
+
+export class AppealService {
+  private static readonly APPEAL_WINDOW = 24 * 60 * 60 * 1000; // 24 hours after the match ends
+  private static readonly PANEL_SIZE = 3;
+  private static readonly PANEL_MIN_JUDGE_ELO = 1300;
+  private static readonly OVERTURN_PENALTY = 15; // Judge ELO lost per overturned rating or verdict
+  private static readonly REVIEW_WINDOW = 24 * 60 * 60 * 1000; // A reviewer who hasn't voted by then is replaced
+  private static readonly REVIEW_DEADLINE = 3 * 24 * 60 * 60 * 1000; // Appeals are settled on the reviews in by then
+  private static readonly SWEEP_INTERVAL = 5 * 60 * 1000; // 5 minutes between sweeps for stalled appeals
+
+  private static sweepTimer: NodeJS.Timeout | null = null;
+  private static isSweeping = false;
+
+  static async fileAppeal(matchId: string, userId: string, reason: string, messageId?: string): Promise<{
+    success: boolean;
+    appeal?: Appeal;
+    error?: string;
+  }> {
+    try {
+      const match = await storage.getMatch(matchId);
+      if (!match || (match.player1Id !== userId && match.player2Id !== userId)) {
+        return { success: false, error: "Only players in this match can file an appeal" };
+      }
+
+      if (match.status !== 'completed' && match.status !== 'forfeit') {
+        return { success: false, error: "Appeals can only be filed once the match is over" };
+      }
+
+      if (!match.endedAt || Date.now() - match.endedAt.getTime() > this.APPEAL_WINDOW) {
+        return { success: false, error: "The appeal window for this match has closed" };
+      }
+
+      const existing = await storage.findPlayerAppeal(matchId, userId, messageId ?? null);
+      if (existing) {
+        return { success: false, error: "You have already appealed this" };
+      }
+
+      let originalRating: MoveRating | null = null;
+      let originalPoints: number | null = null;
+      if (messageId) {
+        const scoredMessages = await GameEngine.getScoredMessages(matchId);
+        const message = scoredMessages.find(msg => msg.id === messageId);
+        if (!message) {
+          return { success: false, error: "Message not found in this match" };
+        }
+        if (message.points === null) {
+          return { success: false, error: "This message has not been rated yet" };
+        }
+        originalRating = message.rating;
+        originalPoints = message.points;
+      } else if (!isVerdictAppealable(match)) {
+        return { success: false, error: "Only a verdict the judges reached can be appealed" };
+      }
+
+      const panel = await storage.findAppealPanel(this.getParticipantIds(match), this.PANEL_MIN_JUDGE_ELO, this.PANEL_SIZE);
+      if (panel.length === 0) {
+        return { success: false, error: "No reviewers are available right now. Please try again later" };
+      }
+
+      const appeal = await storage.createAppeal({
+        matchId,
+        messageId: messageId ?? null,
+        appellantId: userId,
+        reason,
+        originalRating,
+        originalPoints,
+        originalWinnerId: match.winnerId,
+      });
+      await storage.assignAppealReviewers(appeal.id, panel.map(reviewer => reviewer.id));
+
+      return { success: true, appeal };
+    } catch (error) {
+      console.error("Error filing appeal:", error);
+      return { success: false, error: "Failed to file appeal" };
+    }
+  }
+
+  // Appeals waiting on this reviewer, with the transcript they need to decide.
+  // Players are shown as Player 1 / Player 2 and the original judges' calls are
+  // left out so the panel reviews the item fresh.
+  static async getAssignedReviews(reviewerId: string): Promise<any[]> {
+    const pending = await storage.getPendingAppealReviews(reviewerId);
+
+    return await Promise.all(pending.map(async ({ appeal }) => {
+      const match = await storage.getMatch(appeal.matchId);
+      const messages = await storage.getMatchMessages(appeal.matchId);
+
+      return {
+        id: appeal.id,
+        type: appeal.messageId ? 'message' : 'verdict',
+        reason: appeal.reason,
+        messageId: appeal.messageId,
+        createdAt: appeal.createdAt,
+        transcript: messages.map(msg => ({
+          id: msg.id,
+          content: msg.content,
+          speaker: msg.user.id === match?.player1Id ? 'Player 1' : 'Player 2',
+        })),
+      };
+    }));
+  }
+
+  static async submitReview(appealId: string, reviewerId: string, review: { rating?: MoveRating; verdict?: MatchVerdict }): Promise<{
+    success: boolean;
+    resolved?: boolean;
+    error?: string;
+  }> {
+    try {
+      const appeal = await storage.getAppeal(appealId);
+      if (!appeal || appeal.status !== 'under_review') {
+        return { success: false, error: "Appeal is not under review" };
+      }
+
+      if (appeal.messageId ? !review.rating : !review.verdict) {
+        return { success: false, error: appeal.messageId ? "A rating is required for this appeal" : "A verdict is required for this appeal" };
+      }
+
+      const recorded = await storage.recordAppealReview(appealId, reviewerId, appeal.messageId
+        ? { rating: review.rating }
+        : { verdict: review.verdict });
+      if (!recorded) {
+        return { success: false, error: "You are not assigned to this appeal or have already reviewed it" };
+      }
+
+      const reviews = (await storage.getAppealReviews(appealId)).filter(r => !r.replacedAt);
+      if (reviews.some(r => !r.reviewedAt)) {
+        return { success: true, resolved: false };
+      }
+
+      await this.resolveAppeal(appeal, reviews);
+      return { success: true, resolved: true };
+    } catch (error) {
+      console.error("Error submitting appeal review:", error);
+      return { success: false, error: "Failed to submit review" };
+    }
+  }
+
+  static startAppealSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.processStalledAppeals(), this.SWEEP_INTERVAL);
+  }
+
+  // Keeps appeals from waiting on reviewers forever: a reviewer who sits on an appeal past
+  // the review window hands their seat to another eligible judge, and an appeal still open
+  // at its deadline is settled on the reviews submitted so far, or expires with none.
+  static async processStalledAppeals(): Promise<void> {
+    if (this.isSweeping) return;
+    this.isSweeping = true;
+
+    try {
+      const overdue = await storage.getUnresolvedAppeals(new Date(Date.now() - this.REVIEW_DEADLINE));
+      for (const appeal of overdue) {
+        const reviews = (await storage.getAppealReviews(appeal.id)).filter(r => r.reviewedAt);
+        if (reviews.length > 0) {
+          await this.resolveAppeal(appeal, reviews);
+        } else {
+          await storage.resolveAppeal(appeal.id, 'expired', {});
+        }
+      }
+
+      const stale = await storage.getStaleAppealReviews(new Date(Date.now() - this.REVIEW_WINDOW));
+      for (const { review, appeal } of stale) {
+        const match = await storage.getMatch(appeal.matchId);
+        if (!match) continue;
+
+        // Everyone who has held a seat on this panel, replaced or not, is passed over
+        const seated = await storage.getAppealReviews(appeal.id);
+        const excludeIds = [...this.getParticipantIds(match), ...seated.map(r => r.reviewerId)];
+        const [replacement] = await storage.findAppealPanel(excludeIds, this.PANEL_MIN_JUDGE_ELO, 1);
+        if (replacement) {
+          await storage.replaceAppealReviewer(review.id, appeal.id, replacement.id);
+        }
+      }
+    } catch (error) {
+      console.error("Error processing stalled appeals:", error);
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  private static async resolveAppeal(appeal: Appeal, reviews: AppealReview[]): Promise<void> {
+    const match = await storage.getMatch(appeal.matchId);
+    if (!match) return;
+
+    if (appeal.messageId) {
+      await this.resolveMessageAppeal(appeal, match, reviews);
+    } else {
+      await this.resolveVerdictAppeal(appeal, match, reviews);
+    }
+  }
+
+  // The panel's median rating replaces the consensus if it scores differently. Points are
+  // compared rather than ratings because split judges leave the message with an averaged
+  // score and no single rating.
+  private static async resolveMessageAppeal(appeal: Appeal, match: Match, reviews: AppealReview[]): Promise<void> {
+    const finalRating = medianRating(reviews.map(r => r.rating!));
+    // Judged against the score the message has now, which the other player's appeal
+    // of the same message may already have changed
+    const scoredMessages = await GameEngine.getScoredMessages(match.id);
+    const currentPoints = scoredMessages.find(msg => msg.id === appeal.messageId)?.points ?? appeal.originalPoints;
+    const overturned = MOVE_RATING_POINTS[finalRating] !== currentPoints;
+
+    const resolved = await storage.resolveAppeal(appeal.id, overturned ? 'overturned' : 'upheld', { finalRating });
+    if (!resolved || !overturned) return;
+
+    // An averaged score wasn't either judge's call, so neither is penalised for it
+    if (appeal.originalRating) {
+      const judgeRatings = await storage.getMessageJudgeRatings(appeal.messageId!);
+      await this.penalizeJudges(judgeRatings.filter(r => r.rating !== finalRating).map(r => r.judgeId));
+    }
+
+    await GameEngine.refreshMatchScores(match.id);
+
+    // A new rating can flip the result when scores pick the winner, but not a result
+    // the players agreed or the clock settled
+    if (GameEngine.SCORE_DECIDES_WINNER && isVerdictAppealable(match) && match.player2Id) {
+      const scores = await GameEngine.calculateMatchScores(match.id, match.player1Id, match.player2Id);
+      if (scores.winnerId !== null) {
+        const winnerId = scores.winnerId === 1 ? match.player1Id : match.player2Id;
+        await GameEngine.reviseMatchResult(match, winnerId);
+      }
+    }
+  }
+
+  // The panel's majority verdict stands, and a panel without a majority calls a draw
+  private static async resolveVerdictAppeal(appeal: Appeal, match: Match, reviews: AppealReview[]): Promise<void> {
+    const counts = new Map<MatchVerdict, number>();
+    for (const review of reviews) {
+      counts.set(review.verdict!, (counts.get(review.verdict!) ?? 0) + 1);
+    }
+    const majority = Array.from(counts.entries()).find(([, count]) => count > reviews.length / 2);
+    const finalVerdict: MatchVerdict = majority ? majority[0] : 'draw';
+
+    const winnerId = this.verdictWinner(match, finalVerdict);
+    // Judged against the result that stands now, since both players can appeal the
+    // verdict and the first appeal to resolve may already have changed it
+    const overturned = winnerId !== match.winnerId;
+
+    const resolved = await storage.resolveAppeal(appeal.id, overturned ? 'overturned' : 'upheld', { finalVerdict });
+    if (!resolved || !overturned) return;
+
+    const judgeVerdicts = [
+      { judgeId: match.judge1Id, verdict: match.judge1Verdict },
+      { judgeId: match.judge2Id, verdict: match.judge2Verdict },
+    ];
+    await this.penalizeJudges(judgeVerdicts
+      .filter(j => j.judgeId && j.verdict && j.verdict !== finalVerdict)
+      .map(j => j.judgeId!));
+
+    await GameEngine.reviseMatchResult(match, winnerId);
+  }
+
+  // The panel must be independent of the match it is reviewing
+  private static getParticipantIds(match: Match): string[] {
+    return [match.player1Id, match.player2Id, match.judge1Id, match.judge2Id]
+      .filter((id): id is string => !!id);
+  }
+
+  private static verdictWinner(match: Match, verdict: MatchVerdict): string | null {
+    if (verdict === 'player1') return match.player1Id;
+    if (verdict === 'player2') return match.player2Id;
+    return null;
+  }
+
+  private static async penalizeJudges(judgeIds: string[]): Promise<void> {
+    for (const judgeId of judgeIds) {
+      const judge = await storage.getUser(judgeId);
+      if (!judge) continue;
+
+      await storage.updateJudgeElo(judgeId, Math.max(800, judge.judgeElo - this.OVERTURN_PENALTY));
+      await storage.recordJudgeOverturn(judgeId);
+    }
+  }
+}
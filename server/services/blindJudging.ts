@@ -0,0 +1,53 @@
+import { storage } from "../storage";
+import type { Match } from "@shared/schema";
+
+export class BlindJudgingService {
+  // New matches are blind when this is on; each match keeps its own setting after that
+  static readonly BLIND_BY_DEFAULT = process.env.BLIND_JUDGING === 'true';
+
+  private static readonly LABELS = {
+    player1: { id: 'player-a', name: 'Player A' },
+    player2: { id: 'player-b', name: 'Player B' },
+  };
+
+  // A judge of a blind match sees anonymous players until their ratings are locked in:
+  // the match is over and they have rated every message
+  static async isBlindFor(match: Match, judgeId: string): Promise<boolean> {
+    if (!match.blindJudging) return false;
+    if (match.status !== 'completed' && match.status !== 'forfeit') return true;
+
+    const messages = await storage.getMatchMessages(match.id);
+    const ratings = await storage.getJudgeRatingsForMatch(match.id, judgeId);
+    return ratings.length < messages.length;
+  }
+
+  static anonymizeMatch(matchWithPlayers: any, match: Match): any {
+    return {
+      ...matchWithPlayers,
+      currentTurn: this.anonymizeId(matchWithPlayers.currentTurn, match),
+      winnerId: this.anonymizeId(matchWithPlayers.winnerId, match),
+      offeredBy: this.anonymizeId(matchWithPlayers.offeredBy, match),
+      player1: this.anonymizeUser(matchWithPlayers.player1, match),
+      player2: matchWithPlayers.player2 && this.anonymizeUser(matchWithPlayers.player2, match),
+    };
+  }
+
+  // Replaces a player projection with its label, dropping email, ELO and avatar
+  static anonymizeUser(user: any, match: Match): any {
+    const label = user?.id === match.player1Id ? this.LABELS.player1 : this.LABELS.player2;
+    return {
+      id: label.id,
+      email: null,
+      firstName: label.name,
+      lastName: null,
+      profileImageUrl: null,
+      elo: null,
+    };
+  }
+
+  private static anonymizeId(userId: string | null, match: Match): string | null {
+    if (userId === match.player1Id) return this.LABELS.player1.id;
+    if (userId === match.player2Id) return this.LABELS.player2.id;
+    return userId;
+  }
+}
@@ -0,0 +1,126 @@
+import { storage } from "../storage";
+import { ratingAgreement, judgeEloChange } from "@shared/scoring";
+import { GAME_MODES } from "@shared/gameModes";
+import type { CalibrationItem, Match, MoveRating } from "@shared/schema";
+
+export class CalibrationService {
+  private static readonly CALIBRATION_CHANCE = 0.35; // Share of judge assignments that get a gold message
+  private static readonly MIN_MESSAGES_BEFORE = 2; // Gold needs 2 to 6 live messages (picked at random) before it is shown
+  private static readonly MAX_MESSAGES_BEFORE = 6;
+  private static readonly CALIBRATION_ELO_WEIGHT = 2; // Known answers count double
+  private static readonly PROMOTION_MIN_JUDGE_ELO = 1400; // Both judges must be this strong to mint gold
+
+  static async scheduleForMatch(match: Match): Promise<void> {
+    try {
+      const players = [match.player1Id, match.player2Id].filter((id): id is string => !!id);
+      const judges = [match.judge1Id, match.judge2Id].filter((id): id is string => !!id);
+      if (players.length < 2) return;
+
+      for (const judgeId of judges) {
+        if (Math.random() >= this.CALIBRATION_CHANCE) continue;
+
+        const goldMessage = await storage.pickGoldMessageForJudge(judgeId, match.scenarioId);
+        if (!goldMessage) continue;
+
+        // Gold from a scenario match speaks for the side it was written for
+        const attributedUserId = goldMessage.sourceSlot === 'player1' ? match.player1Id
+          : goldMessage.sourceSlot === 'player2' ? match.player2Id!
+          : players[Math.floor(Math.random() * players.length)];
+
+        const span = this.MAX_MESSAGES_BEFORE - this.MIN_MESSAGES_BEFORE + 1;
+        await storage.createCalibrationItem({
+          goldMessageId: goldMessage.id,
+          matchId: match.id,
+          judgeId,
+          attributedUserId,
+          showAfterMessages: this.MIN_MESSAGES_BEFORE + Math.floor(Math.random() * span),
+        });
+      }
+    } catch (error) {
+      console.error("Error scheduling calibration:", error);
+    }
+  }
+
+  // Gold messages due in this judge's view, shaped like live match messages. Turns strictly
+  // alternate, so gold only appears once play has stopped, as the final reply of the player
+  // who didn't send the last live message and still had a message left to send.
+  static async getJudgeItems(match: Match, judgeId: string, liveMessages: any[]): Promise<any[]> {
+    const lastMessage = liveMessages[liveMessages.length - 1];
+    if (match.status !== 'active' && lastMessage && match.player2Id) {
+      const replyFromId = lastMessage.user.id === match.player1Id ? match.player2Id : match.player1Id;
+      const cap = GAME_MODES[match.gameMode].messagesPerPlayer;
+      const replySent = liveMessages.filter(msg => msg.user.id === replyFromId).length;
+      if (cap === null || replySent < cap) {
+        await storage.revealCalibrationItems(match.id, judgeId, liveMessages.length, replyFromId);
+      }
+    }
+    const items = await storage.getShownCalibrationItems(match.id, judgeId);
+
+    return await Promise.all(items.map(async item => {
+      const author = await storage.getUser(item.attributedUserId);
+      return {
+        id: item.id,
+        content: item.content,
+        sentAt: match.endedAt ?? item.shownAt,
+        user: {
+          id: author?.id,
+          firstName: author?.firstName,
+          lastName: author?.lastName,
+          profileImageUrl: author?.profileImageUrl,
+        },
+        myRating: item.rating,
+        rating: null,
+        points: null,
+        consensus: null,
+      };
+    }));
+  }
+
+  static async processRating(item: CalibrationItem, rating: MoveRating): Promise<{
+    success: boolean;
+    alreadyRated?: boolean;
+  }> {
+    try {
+      const recorded = await storage.recordCalibrationRating(item.id, rating);
+      if (!recorded) {
+        return { success: false, alreadyRated: true };
+      }
+
+      const goldMessage = await storage.getGoldMessage(item.goldMessageId);
+      const judge = await storage.getUser(item.judgeId);
+      if (!goldMessage || !judge) {
+        return { success: true };
+      }
+
+      const agreement = ratingAgreement(rating, goldMessage.referenceRating);
+      const eloChange = judgeEloChange(agreement) * this.CALIBRATION_ELO_WEIGHT;
+      await storage.updateJudgeElo(judge.id, Math.max(800, judge.judgeElo + eloChange));
+      await storage.updateCalibrationStats(judge.id, agreement);
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error processing calibration rating:", error);
+      return { success: false };
+    }
+  }
+
+  // Unanimous ratings from two strong judges become new gold messages
+  static async promoteFromConsensus(messageId: string, rating: MoveRating, judgeIds: string[]): Promise<void> {
+    try {
+      const judges = await Promise.all(judgeIds.map(id => storage.getUser(id)));
+      if (judges.some(judge => !judge || judge.judgeElo < this.PROMOTION_MIN_JUDGE_ELO)) return;
+
+      const message = await storage.getMessage(messageId);
+      if (!message) return;
+
+      await storage.createGoldMessage({
+        content: message.content,
+        referenceRating: rating,
+        explanation: "Promoted from a unanimous rating by high-rated judges.",
+        sourceMessageId: message.id,
+      });
+    } catch (error) {
+      console.error("Error promoting gold message:", error);
+    }
+  }
+}
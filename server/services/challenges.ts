@@ -0,0 +1,208 @@
+import { randomBytes } from "crypto";
+import { storage } from "../storage";
+import { CalibrationService } from "./calibration";
+import { TIME_CONTROLS, type TimeControlId } from "@shared/timeControls";
+import { GameEngine } from "./gameEngine";
+import { ScenarioService } from "./scenarios";
+import type { Challenge, GameMode } from "@shared/schema";
+
+interface ChallengeSettings {
+  challengedId?: string;
+  judgeIds?: string[];
+  timeControl: TimeControlId;
+  gameMode: GameMode;
+  blindJudging: boolean;
+  rated: boolean;
+}
+
+export class ChallengeService {
+  private static readonly CHALLENGE_TTL = 24 * 60 * 60 * 1000; // Unanswered challenges and invites lapse after a day
+  private static readonly JUDGE_INVITE_WINDOW = 2 * 60 * 1000; // Named judges have this long after the opponent accepts
+
+  static async createChallenge(challengerId: string, settings: ChallengeSettings): Promise<{
+    success: boolean;
+    challenge?: Challenge;
+    error?: string;
+  }> {
+    try {
+      const { challengedId, judgeIds } = settings;
+
+      if (challengedId) {
+        if (challengedId === challengerId) {
+          return { success: false, error: "You can't challenge yourself" };
+        }
+        if (!(await storage.getUser(challengedId))) {
+          return { success: false, error: "Challenged player not found" };
+        }
+      }
+
+      if (judgeIds) {
+        if (judgeIds.includes(challengerId) || (challengedId && judgeIds.includes(challengedId))) {
+          return { success: false, error: "Players can't judge their own match" };
+        }
+        for (const judgeId of judgeIds) {
+          if (!(await storage.getUser(judgeId))) {
+            return { success: false, error: "Named judge not found" };
+          }
+        }
+      }
+
+      const challenge = await storage.createChallenge({
+        challengerId,
+        challengedId: challengedId ?? null,
+        // Open invites are claimed by whoever presents the code
+        inviteCode: challengedId ? null : randomBytes(6).toString('hex'),
+        judge1Id: judgeIds?.[0] ?? null,
+        judge2Id: judgeIds?.[1] ?? null,
+        timeLimit: TIME_CONTROLS[settings.timeControl].base,
+        timeIncrement: TIME_CONTROLS[settings.timeControl].increment,
+        gameMode: settings.gameMode,
+        blindJudging: settings.blindJudging,
+        rated: settings.rated,
+        expiresAt: new Date(Date.now() + this.CHALLENGE_TTL),
+      });
+
+      return { success: true, challenge };
+    } catch (error) {
+      console.error("Error creating challenge:", error);
+      return { success: false, error: "Failed to create challenge" };
+    }
+  }
+
+  static async acceptChallenge(challenge: Challenge, userId: string): Promise<{
+    success: boolean;
+    matchId?: string;
+    error?: string;
+  }> {
+    try {
+      if (challenge.challengerId === userId) {
+        return { success: false, error: "You can't accept your own challenge" };
+      }
+      if (challenge.challengedId && challenge.challengedId !== userId) {
+        return { success: false, error: "This challenge is for someone else" };
+      }
+
+      if (challenge.judge1Id === userId || challenge.judge2Id === userId) {
+        return { success: false, error: "You are a judge for this challenge" };
+      }
+
+      // Named judges are checked when they accept and again when the match starts
+      for (const participantId of [challenge.challengerId, userId]) {
+        if (await storage.isUserBusy(participantId)) {
+          return {
+            success: false,
+            error: participantId === userId ? "You are already in a match" : "Someone in this challenge is already in a match",
+          };
+        }
+      }
+
+      const accepted = await storage.acceptChallenge(challenge.id, userId);
+      if (!accepted) {
+        return { success: false, error: "This challenge is no longer available" };
+      }
+
+      // The match waits for its judges: named judges once both have accepted, otherwise
+      // two judges the matchmaker brings in from the queue
+      const [player1Id, player2Id] = await GameEngine.orderPlayers(accepted.gameMode, accepted.challengerId, userId);
+      const match = await storage.createMatch(player1Id, player2Id, undefined, undefined, {
+        gameMode: accepted.gameMode,
+        scenarioId: await ScenarioService.pickForMatch(player1Id, player2Id),
+        blindJudging: accepted.blindJudging,
+        timeLimit: accepted.timeLimit,
+        timeIncrement: accepted.timeIncrement,
+        rated: accepted.rated,
+      });
+      await storage.setChallengeMatch(accepted.id, match.id);
+
+      for (const participantId of [accepted.challengerId, userId]) {
+        await storage.leaveQueue(participantId);
+      }
+
+      await this.startWithNamedJudges(accepted.id);
+
+      return { success: true, matchId: match.id };
+    } catch (error) {
+      console.error("Error accepting challenge:", error);
+      return { success: false, error: "Failed to accept challenge" };
+    }
+  }
+
+  // A judge who declines sends the match to the judge queue instead of leaving the
+  // players waiting on a replacement
+  static async respondAsJudge(challenge: Challenge, userId: string, accept: boolean): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      const slot = challenge.judge1Id === userId ? 'judge1' : challenge.judge2Id === userId ? 'judge2' : null;
+      if (!slot) {
+        return { success: false, error: "You aren't a judge for this challenge" };
+      }
+
+      if (!accept) {
+        const released = await storage.releaseChallengeJudges(challenge.id, userId);
+        return released ? { success: true } : { success: false, error: "This invitation is no longer open" };
+      }
+
+      if (await storage.isUserBusy(userId)) {
+        return { success: false, error: "You are already in a match" };
+      }
+      const answered = await storage.acceptChallengeJudging(challenge.id, userId, slot);
+      if (!answered) {
+        return { success: false, error: "This invitation is no longer open" };
+      }
+
+      await this.startWithNamedJudges(challenge.id);
+      return { success: true };
+    } catch (error) {
+      console.error("Error answering judge invitation:", error);
+      return { success: false, error: "Failed to answer invitation" };
+    }
+  }
+
+  // Run by the matchmaker, ahead of filling waiting matches from the judge queue
+  static async releaseUnansweredJudges(): Promise<void> {
+    await storage.releaseUnansweredChallengeJudges(new Date(Date.now() - this.JUDGE_INVITE_WINDOW));
+  }
+
+  static async declineChallenge(challenge: Challenge, userId: string): Promise<boolean> {
+    if (challenge.challengedId !== userId) return false;
+    return await storage.closeChallenge(challenge.id, 'declined');
+  }
+
+  static async cancelChallenge(challenge: Challenge, userId: string): Promise<boolean> {
+    if (challenge.challengerId !== userId) return false;
+    return await storage.closeChallenge(challenge.id, 'cancelled');
+  }
+
+  // Starts the challenge match once the opponent and both named judges have accepted.
+  // A judge who has since joined another match gives up both seats to the judge queue.
+  private static async startWithNamedJudges(challengeId: string): Promise<void> {
+    const challenge = await storage.getChallenge(challengeId);
+    if (!challenge || challenge.status !== 'accepted' || !challenge.matchId) return;
+    if (!challenge.judge1Id || !challenge.judge2Id || !challenge.judge1AcceptedAt || !challenge.judge2AcceptedAt) return;
+
+    const judgeIds = [challenge.judge1Id, challenge.judge2Id];
+    for (const judgeId of judgeIds) {
+      if (await storage.isUserBusy(judgeId)) {
+        await storage.releaseChallengeJudges(challenge.id);
+        return;
+      }
+    }
+
+    const match = await storage.assignMatchJudges(challenge.matchId, challenge.judge1Id, challenge.judge2Id);
+    if (!match) return;
+
+    await storage.createJudgeAssignments(judgeIds.map((judgeId, index) => ({
+      matchId: match.id,
+      judgeId,
+      slot: index === 0 ? 'judge1' : 'judge2',
+      reason: "Named by the challenger",
+    })));
+    await CalibrationService.scheduleForMatch(match);
+
+    for (const judgeId of judgeIds) {
+      await storage.leaveQueue(judgeId);
+    }
+  }
+}
@@ -1,15 +1,30 @@
-import { storage } from "../storage";
-import type { Match, Message } from "@shared/schema";
+import { storage, type MatchOutcome } from "../storage";
+import { evaluateMessage, determineMatchWinner } from "./openai";
+import { getMessageConsensus, ratingAgreement, judgeEloChange, weightedKappa } from "@shared/scoring";
+import { CalibrationService } from "./calibration";
+import { ScenarioService } from "./scenarios";
+import { GAME_MODES } from "@shared/gameModes";
+import { getFlaggedPlayer, getMatchClocks } from "@shared/timeControls";
+import type { GameMode, Match, Message, MatchVerdict, MatchOfferType, MoveRating, RubricScores, AiEvaluation } from "@shared/schema";
 
 export class GameEngine {
-  private static readonly MATCH_DURATION = 5 * 60 * 1000; // 5 minutes
   private static readonly ELO_K_FACTOR = 32;
+  private static readonly VERDICT_WINDOW = 3 * 60 * 1000; // 3 minutes for judges to vote
+  private static readonly JUDGE_KAPPA_WINDOW = 50; // Most recent rated messages in a judge's rolling kappa
+  private static readonly TIMEOUT_SWEEP_INTERVAL = 5000; // 5 seconds between sweeps for matches nobody ended
+  private static readonly WAITING_MATCH_TIMEOUT = 10 * 60 * 1000; // Matches still without judges after 10 minutes are called off
+  // When enabled, consensus move ratings pick the winner and the verdict only breaks score ties
+  static readonly SCORE_DECIDES_WINNER = process.env.SCORE_DECIDES_WINNER === 'true';
+
+  private static sweepTimer: NodeJS.Timeout | null = null;
+  private static isSweeping = false;
 
   static async sendMessage(matchId: string, userId: string, content: string): Promise<{
     success: boolean;
     message?: Message;
     rating?: any;
     error?: string;
+    conflict?: boolean; // The turn was already played, e.g. by a double submit
   }> {
     try {
       // Validate match and turn
@@ -18,30 +33,49 @@ export class GameEngine {
         return { success: false, error: "Match not active" };
       }
 
-      if (match.currentTurn !== userId) {
-        return { success: false, error: "Not your turn" };
+      const nextUserId = match.player1Id === userId ? match.player2Id : match.player1Id;
+      if (match.currentTurn !== userId || !nextUserId) {
+        return { success: false, error: "Not your turn", conflict: true };
       }
 
-      // Check time limit
-      if (this.isMatchExpired(match)) {
+      // A message sent after the player's flag fell doesn't count
+      const clocks = getMatchClocks(match);
+      const moverSlot = match.player1Id === userId ? 'player1' : 'player2';
+      if (clocks[moverSlot] <= 0) {
         await this.endMatch(matchId);
-        return { success: false, error: "Match time expired" };
+        return { success: false, error: "You ran out of time" };
       }
 
-      // Create message
-      const message = await storage.createMessage({
-        matchId,
-        userId,
-        content: content.trim(),
-      });
+      const mode = GAME_MODES[match.gameMode];
+      if (mode.maxMessageLength !== null && content.trim().length > mode.maxMessageLength) {
+        return { success: false, error: `${mode.name} messages are limited to ${mode.maxMessageLength} characters` };
+      }
+
+      const sentBefore = await storage.countUserMessages(matchId, userId);
+      if (mode.messagesPerPlayer !== null && sentBefore >= mode.messagesPerPlayer) {
+        return { success: false, error: "You have sent all your messages for this match" };
+      }
+
+      // Create the message and switch turns, stopping the mover's clock and crediting
+      // their increment. Only one of two concurrent sends for the same turn gets through.
+      const message = await storage.playTurn(
+        { matchId, userId, content: content.trim() },
+        nextUserId,
+        clocks[moverSlot] + match.timeIncrement * 1000
+      );
+      if (!message) {
+        return { success: false, error: "Not your turn", conflict: true };
+      }
 
       // Message created successfully - rating will be done by judge
       // No automatic AI rating, judge will manually rate messages
 
-      // Switch turns
-      const nextUserId = match.player1Id === userId ? match.player2Id : match.player1Id;
-      if (nextUserId) {
-        await storage.switchTurn(matchId, nextUserId);
+      // Once both players have used up their messages, the judges decide
+      if (mode.messagesPerPlayer !== null && sentBefore + 1 >= mode.messagesPerPlayer) {
+        const opponentSent = await storage.countUserMessages(matchId, nextUserId);
+        if (opponentSent >= mode.messagesPerPlayer) {
+          await this.endMatch(matchId);
+        }
       }
 
       return {
@@ -54,41 +88,66 @@ export class GameEngine {
     }
   }
 
-  static async endMatch(matchId: string, forfeitUserId?: string): Promise<{
+  static async endMatch(matchId: string, forfeitUserId?: string, agreedToEnd = false): Promise<{
     success: boolean;
     result?: any;
   }> {
     try {
-      const match = await storage.getMatchWithPlayers(matchId);
+      const match = await storage.getMatch(matchId);
       if (!match || match.status !== 'active') {
         return { success: false };
       }
 
       // Handle forfeit
       if (forfeitUserId) {
-        const winnerId = forfeitUserId === match.player1.id ? match.player2?.id : match.player1.id;
+        const winnerId = forfeitUserId === match.player1Id ? match.player2Id : match.player1Id;
+        const scores = await this.calculateMatchScores(matchId, match.player1Id, match.player2Id);
+        const forfeited = await storage.forfeitMatch(matchId, winnerId ?? null, scores.player1Score, scores.player2Score);
+        if (!forfeited) {
+          return { success: false };
+        }
         if (winnerId) {
-          await storage.setMatchWinner(matchId, winnerId, 0, 10);
-          await this.updateEloRatings(match.player1.id, match.player2?.id, winnerId);
+          await this.updateEloRatings(matchId, match.player1Id, match.player2Id, winnerId);
         }
-        await storage.updateMatchStatus(matchId, 'forfeit');
         return { success: true };
       }
 
-      // For matches that end due to time, judge will need to decide winner manually
-      // For now, set as draw/tie until judge makes decision
-      await storage.setMatchWinner(matchId, '', 5, 5); // Empty winnerId indicates draw
+      // The player whose flag falls loses on time
+      const flaggedId = getFlaggedPlayer(match);
+      if (flaggedId && match.player2Id) {
+        const winnerId = flaggedId === match.player1Id ? match.player2Id : match.player1Id;
+        const scores = await this.calculateMatchScores(matchId, match.player1Id, match.player2Id);
+        const finished = await storage.finishMatchOnTime(matchId, winnerId, scores.player1Score, scores.player2Score);
+        if (!finished) {
+          return { success: false };
+        }
+        await this.updateEloRatings(matchId, match.player1Id, match.player2Id, winnerId);
 
-      // Update ELO ratings (no ELO change for draws)
-      await this.updateEloRatings(match.player1.id, match.player2?.id, null);
+        return {
+          success: true,
+          result: {
+            winnerId,
+            flaggedId,
+            explanation: "A player ran out of time.",
+          },
+        };
+      }
+
+      // Matches that end with time on both clocks are decided by the judges' verdict.
+      // Concurrent callers can race to end the same match, so only one of them moves it on.
+      const verdictDeadline = new Date(Date.now() + this.VERDICT_WINDOW);
+      const ended = await storage.setMatchPendingVerdict(matchId, verdictDeadline, agreedToEnd ? 'agreed_end' : 'verdict');
+      if (!ended) {
+        return { success: false };
+      }
 
       return {
         success: true,
         result: {
           winnerId: null,
-          player1Score: 5,
-          player2Score: 5,
-          explanation: "Match ended. Judge will decide the winner.",
+          pendingVerdict: true,
+          verdictDeadline,
+          explanation: "Match ended. Judges will decide the winner.",
         },
       };
     } catch (error) {
@@ -97,16 +156,283 @@ export class GameEngine {
     }
   }
 
-  private static isMatchExpired(match: Match): boolean {
-    if (!match.startedAt) return false;
-    const elapsed = Date.now() - match.startedAt.getTime();
-    return elapsed > this.MATCH_DURATION;
+  // Either player can call off a match that is still waiting for its judges
+  static async cancelWaitingMatch(matchId: string, userId: string): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      const match = await storage.getMatch(matchId);
+      if (!match || match.status !== 'waiting') {
+        return { success: false, error: "Only a match that hasn't started can be cancelled" };
+      }
+      if (this.getParticipantRole(match, userId) !== 'player') {
+        return { success: false, error: "Only the players can cancel this match" };
+      }
+
+      const cancelled = await storage.cancelWaitingMatch(matchId);
+      return cancelled ? { success: true } : { success: false, error: "The match has already started" };
+    } catch (error) {
+      console.error("Error cancelling match:", error);
+      return { success: false, error: "Failed to cancel match" };
+    }
   }
 
-  private static async updateEloRatings(player1Id: string, player2Id: string | undefined, winnerId: string | null): Promise<void> {
+  // Clients call this when the clock of the player to move reaches zero. Their clock can
+  // run slightly ahead of the server's, so nothing happens until the flag has really fallen.
+  static async claimTimeout(matchId: string): Promise<{
+    success: boolean;
+    result?: any;
+  }> {
+    const match = await storage.getMatch(matchId);
+    if (!match || match.status !== 'active' || !getFlaggedPlayer(match)) {
+      return { success: false };
+    }
+    return await this.endMatch(matchId);
+  }
+
+  // A player can offer a draw, or to stop and let the judges decide, on their own turn
+  static async makeOffer(matchId: string, userId: string, offerType: MatchOfferType): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      const match = await storage.getMatch(matchId);
+      if (!match || match.status !== 'active') {
+        return { success: false, error: "Match not active" };
+      }
+      if (match.currentTurn !== userId) {
+        return { success: false, error: "You can only make an offer on your turn" };
+      }
+
+      const offered = await storage.makeMatchOffer(matchId, userId, offerType);
+      if (!offered) {
+        return { success: false, error: "An offer is already open" };
+      }
+      return { success: true };
+    } catch (error) {
+      console.error("Error making offer:", error);
+      return { success: false, error: "Failed to make offer" };
+    }
+  }
+
+  // An accepted draw ends the match level for ELO and stats; an accepted end-early
+  // offer sends the match to the judges' verdict like any other ending
+  static async respondToOffer(matchId: string, userId: string, accept: boolean): Promise<{
+    success: boolean;
+    result?: any;
+    error?: string;
+  }> {
+    try {
+      const match = await storage.getMatch(matchId);
+      if (!match || match.status !== 'active' || !match.offerType || !match.offeredBy) {
+        return { success: false, error: "There is no open offer" };
+      }
+      if (match.offeredBy === userId) {
+        return { success: false, error: "You can't answer your own offer" };
+      }
+
+      if (!accept) {
+        const declined = await storage.clearMatchOffer(matchId, match.offeredBy, match.offerType);
+        return declined ? { success: true } : { success: false, error: "This offer is no longer open" };
+      }
+
+      if (match.offerType === 'draw') {
+        const scores = await this.calculateMatchScores(matchId, match.player1Id, match.player2Id);
+        const drawn = await storage.finishMatchAsDraw(matchId, match.offeredBy, scores.player1Score, scores.player2Score);
+        if (!drawn) {
+          return { success: false, error: "This offer is no longer open" };
+        }
+        await this.updateEloRatings(matchId, match.player1Id, match.player2Id, null);
+        return {
+          success: true,
+          result: { winnerId: null, explanation: "The players agreed a draw." },
+        };
+      }
+
+      const cleared = await storage.clearMatchOffer(matchId, match.offeredBy, match.offerType);
+      if (!cleared) {
+        return { success: false, error: "This offer is no longer open" };
+      }
+      const ended = await this.endMatch(matchId, undefined, true);
+      return ended.success ? ended : { success: false, error: "Failed to end match" };
+    } catch (error) {
+      console.error("Error responding to offer:", error);
+      return { success: false, error: "Failed to respond to offer" };
+    }
+  }
+
+  static async submitVerdict(matchId: string, judgeId: string, verdict: MatchVerdict): Promise<{
+    success: boolean;
+    finalized?: boolean;
+    error?: string;
+  }> {
+    try {
+      const match = await storage.getMatch(matchId);
+      if (!match || match.status !== 'pending_verdict') {
+        return { success: false, error: "Match is not awaiting a verdict" };
+      }
+
+      const judgeSlot = match.judge1Id === judgeId ? 'judge1' : match.judge2Id === judgeId ? 'judge2' : null;
+      if (!judgeSlot) {
+        return { success: false, error: "Only assigned judges can submit a verdict" };
+      }
+
+      const recorded = await storage.recordJudgeVerdict(matchId, judgeSlot, verdict);
+      if (!recorded) {
+        return { success: false, error: "Verdict already submitted" };
+      }
+
+      // Finalize as soon as both judges have voted
+      const updatedMatch = await storage.getMatch(matchId);
+      if (updatedMatch?.judge1Verdict && updatedMatch.judge2Verdict) {
+        await this.finalizeVerdict(updatedMatch);
+        return { success: true, finalized: true };
+      }
+
+      return { success: true, finalized: false };
+    } catch (error) {
+      console.error("Error submitting verdict:", error);
+      return { success: false, error: "Failed to submit verdict" };
+    }
+  }
+
+  static async checkVerdictDeadline(matchId: string): Promise<void> {
+    try {
+      const match = await storage.getMatch(matchId);
+      if (!match || match.status !== 'pending_verdict' || !match.verdictDeadline) return;
+
+      if (Date.now() > match.verdictDeadline.getTime()) {
+        await this.finalizeVerdict(match);
+      }
+    } catch (error) {
+      console.error("Error checking verdict deadline:", error);
+    }
+  }
+
+  private static async finalizeVerdict(match: Match): Promise<void> {
+    if (!match.player2Id) return;
+
+    const scores = await this.calculateMatchScores(match.id, match.player1Id, match.player2Id);
+
+    let winnerId: string | null;
+    if (this.SCORE_DECIDES_WINNER && scores.winnerId !== null) {
+      winnerId = scores.winnerId === 1 ? match.player1Id : match.player2Id;
+    } else {
+      const verdict = await this.resolveVerdict(match);
+      winnerId = verdict === 'player1' ? match.player1Id : verdict === 'player2' ? match.player2Id : null;
+    }
+
+    const finalized = await storage.finalizeMatchVerdict(match.id, winnerId, scores.player1Score, scores.player2Score);
+    if (finalized) {
+      await this.updateEloRatings(match.id, match.player1Id, match.player2Id, winnerId);
+    }
+  }
+
+  // Combine the judges' votes: a single vote stands on its own, no votes is a draw,
+  // and a split is settled by the judge with the higher judge ELO (draw if level)
+  private static async resolveVerdict(match: Match): Promise<MatchVerdict> {
+    const vote1 = match.judge1Verdict;
+    const vote2 = match.judge2Verdict;
+
+    if (!vote1 && !vote2) return 'draw';
+    if (!vote1 || !vote2) return (vote1 || vote2)!;
+    if (vote1 === vote2) return vote1;
+
+    const judge1 = match.judge1Id ? await storage.getUser(match.judge1Id) : undefined;
+    const judge2 = match.judge2Id ? await storage.getUser(match.judge2Id) : undefined;
+    if (!judge1 || !judge2 || judge1.judgeElo === judge2.judgeElo) return 'draw';
+
+    return judge1.judgeElo > judge2.judgeElo ? vote1 : vote2;
+  }
+
+  // Messages annotated with the consensus of their judge ratings
+  static async getScoredMessages(matchId: string): Promise<any[]> {
+    const messages = await storage.getMatchMessages(matchId);
+    const ratings = await storage.getMatchJudgeRatings(matchId);
+    const aiEvaluations = await storage.getMatchAiEvaluations(matchId);
+    const aiRatingByMessage = new Map(aiEvaluations.map(e => [e.messageId, e.rating]));
+    const overturned = await storage.getMatchOverturnedRatings(matchId);
+    const appealRatingByMessage = new Map(overturned.map(a => [a.messageId, a.finalRating]));
+
+    return messages.map(msg => {
+      const consensus = getMessageConsensus(
+        ratings.filter(r => r.messageId === msg.id).map(r => r.rating),
+        aiRatingByMessage.get(msg.id),
+        appealRatingByMessage.get(msg.id)
+      );
+      return {
+        ...msg,
+        rating: consensus.rating,
+        points: consensus.points,
+        consensus: consensus.status,
+      };
+    });
+  }
+
+  static async calculateMatchScores(matchId: string, player1Id: string, player2Id?: string | null) {
+    const scoredMessages = await this.getScoredMessages(matchId);
+
+    // Unrated messages don't count towards a player's average
+    const ratedMoves = (playerId?: string | null) => scoredMessages
+      .filter(msg => msg.user.id === playerId && msg.points !== null)
+      .map(msg => ({ rating: msg.rating ?? msg.consensus, score: msg.points as number }));
+
+    return determineMatchWinner(ratedMoves(player1Id), ratedMoves(player2Id));
+  }
+
+  // Judges can keep rating after a match is over, so keep finished scores current
+  static async refreshMatchScores(matchId: string): Promise<void> {
+    const match = await storage.getMatch(matchId);
+    if (!match || (match.status !== 'completed' && match.status !== 'forfeit')) return;
+
+    const scores = await this.calculateMatchScores(match.id, match.player1Id, match.player2Id);
+    await storage.updateMatchScores(match.id, scores.player1Score, scores.player2Score);
+  }
+
+  // Orders two players so that whoever opens under the mode's rules takes player 1's
+  // seat, which moves first
+  static async orderPlayers(gameMode: GameMode, playerAId: string, playerBId: string): Promise<[string, string]> {
+    if (GAME_MODES[gameMode].firstMove === 'lower_rated') {
+      const playerA = await storage.getUser(playerAId);
+      const playerB = await storage.getUser(playerBId);
+      if (playerA && playerB && playerA.elo !== playerB.elo) {
+        return playerA.elo < playerB.elo ? [playerAId, playerBId] : [playerBId, playerAId];
+      }
+    }
+    return Math.random() < 0.5 ? [playerAId, playerBId] : [playerBId, playerAId];
+  }
+
+  // Each player's remaining time in milliseconds right now, with the player to move
+  // charged for their turn so far. Negative once their flag has fallen.
+  // Change the winner of a finished match, e.g. after an upheld appeal. The ELO and
+  // stats from the original result are rolled back before the new result is applied.
+  static async reviseMatchResult(match: Match, winnerId: string | null): Promise<void> {
+    if (!match.player2Id || match.winnerId === winnerId) return;
+
+    if (match.player1EloChange !== null && match.player2EloChange !== null) {
+      const player1 = await storage.getUser(match.player1Id);
+      const player2 = await storage.getUser(match.player2Id);
+      if (player1 && player2) {
+        await storage.updateUserElo(player1.id, player1.elo - match.player1EloChange);
+        await storage.updateUserElo(player2.id, player2.elo - match.player2EloChange);
+        await storage.revertUserStats(player1.id, this.getOutcome(match.winnerId, player1.id));
+        await storage.revertUserStats(player2.id, this.getOutcome(match.winnerId, player2.id));
+      }
+    }
+
+    await storage.updateMatchWinner(match.id, winnerId);
+    await this.updateEloRatings(match.id, match.player1Id, match.player2Id, winnerId);
+  }
+
+  private static async updateEloRatings(matchId: string, player1Id: string, player2Id: string | undefined | null, winnerId: string | null): Promise<void> {
     if (!player2Id) return;
 
     try {
+      // Unrated matches (e.g. friendly challenges) don't touch ELO or stats
+      const match = await storage.getMatch(matchId);
+      if (match && !match.rated) return;
+
       const player1 = await storage.getUser(player1Id);
       const player2 = await storage.getUser(player2Id);
       
@@ -135,81 +461,176 @@ export class GameEngine {
       // Update ELO ratings and stats
       await storage.updateUserElo(player1Id, newElo1);
       await storage.updateUserElo(player2Id, newElo2);
-      await storage.updateUserStats(player1Id, winnerId === player1Id);
-      await storage.updateUserStats(player2Id, winnerId === player2Id);
+      await storage.updateUserStats(player1Id, this.getOutcome(winnerId, player1Id));
+      await storage.updateUserStats(player2Id, this.getOutcome(winnerId, player2Id));
+      await storage.setMatchEloChanges(matchId, newElo1 - player1.elo, newElo2 - player2.elo);
     } catch (error) {
       console.error("Error updating ELO ratings:", error);
     }
   }
 
+  private static getOutcome(winnerId: string | null, playerId: string): MatchOutcome {
+    if (winnerId === null) return 'draw';
+    return winnerId === playerId ? 'win' : 'loss';
+  }
+
+  // Corrects stats recorded before draws were counted separately
+  static async backfillDrawStats(): Promise<void> {
+    try {
+      await storage.backfillUserDraws();
+    } catch (error) {
+      console.error("Error backfilling draw stats:", error);
+    }
+  }
+
+  static async getJudgeKappa(judgeId: string): Promise<{ kappa: number | null; sampleSize: number }> {
+    const pairs = await storage.getJudgeRatingPairs(judgeId, this.JUDGE_KAPPA_WINDOW);
+    return {
+      kappa: weightedKappa(pairs.map(p => [p.rating, p.referenceRating])),
+      sampleSize: pairs.length,
+    };
+  }
+
+  static getParticipantRole(match: Match, userId: string): 'player' | 'judge' | null {
+    if (match.player1Id === userId || match.player2Id === userId) return 'player';
+    if (match.judge1Id === userId || match.judge2Id === userId) return 'judge';
+    return null;
+  }
+
+  static startTimeoutSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.checkMatchTimeout(), this.TIMEOUT_SWEEP_INTERVAL);
+  }
+
+  // Finishes matches nobody is around to end, e.g. when both players closed their
+  // browsers: a player whose flag has fallen loses, verdicts past their deadline are
+  // finalized, and matches that never got judges are called off. Every way of ending a match is a status-guarded update in storage,
+  // so a client ending the same match at the same moment doesn't apply the result twice.
   static async checkMatchTimeout(): Promise<void> {
-    // This would be called by a background job to check for expired matches
-    // For now, matches are checked when actions are performed
+    if (this.isSweeping) return;
+    this.isSweeping = true;
+
+    try {
+      const activeMatches = await storage.getActiveMatches();
+      for (const match of activeMatches.filter(m => getFlaggedPlayer(m))) {
+        await this.endMatch(match.id);
+      }
+
+      const overdueMatches = await storage.getOverdueVerdictMatches(new Date());
+      for (const match of overdueMatches) {
+        await this.finalizeVerdict(match);
+      }
+
+      const expiredWaiting = await storage.getExpiredWaitingMatches(new Date(Date.now() - this.WAITING_MATCH_TIMEOUT));
+      for (const match of expiredWaiting) {
+        await storage.cancelWaitingMatch(match.id);
+      }
+    } catch (error) {
+      console.error("Error checking match timeouts:", error);
+    } finally {
+      this.isSweeping = false;
+    }
   }
 
-  static async processJudgeRating(messageId: string, judgeId: string, rating: string, explanation?: string): Promise<{
+  static async processJudgeRating(messageId: string, judgeId: string, rating: MoveRating, explanation?: string, criteria?: RubricScores): Promise<{
     success: boolean;
     eloUpdated?: boolean;
+    alreadyRated?: boolean;
   }> {
     try {
       // Create the judge rating
-      await storage.createJudgeRating({
+      const judgeRating = await storage.createJudgeRating({
         messageId,
         judgeId,
-        rating: rating as any,
+        rating,
         explanation: explanation || '',
+        ...criteria,
       });
+      if (!judgeRating) {
+        return { success: false, alreadyRated: true };
+      }
 
-      // Check if both judges have now rated this message
+      // Check if both judges have now rated this message. If both ratings land at
+      // once, only the request holding the later one settles the pair.
       const allRatings = await storage.getMessageJudgeRatings(messageId);
-      
-      if (allRatings.length === 2) {
-        // Both judges have rated - check if they agree
+      let eloUpdated = false;
+
+      if (allRatings.length === 2 && allRatings[1].id === judgeRating.id) {
         const [rating1, rating2] = allRatings;
-        const agreed = rating1.rating === rating2.rating;
 
-        // Update judge ELOs based on agreement
-        await this.updateJudgeElos(rating1.judgeId, rating2.judgeId, agreed);
-        
-        return { success: true, eloUpdated: true };
+        if (rating1.rating === rating2.rating) {
+          await this.updateJudgeElos([
+            { judgeId: rating1.judgeId, agreement: 1 },
+            { judgeId: rating2.judgeId, agreement: 1 },
+          ]);
+          await CalibrationService.promoteFromConsensus(messageId, rating1.rating, [rating1.judgeId, rating2.judgeId]);
+        } else {
+          // Judges split - the AI settles the rating and each judge is scored by how close
+          // they came to it; without a tie-breaker they are scored against each other
+          const tiebreak = await this.requestAiTiebreak(messageId);
+          await this.updateJudgeElos([
+            { judgeId: rating1.judgeId, agreement: ratingAgreement(rating1.rating, tiebreak?.rating ?? rating2.rating) },
+            { judgeId: rating2.judgeId, agreement: ratingAgreement(rating2.rating, tiebreak?.rating ?? rating1.rating) },
+          ]);
+        }
+        eloUpdated = true;
+      }
+
+      const message = await storage.getMessage(messageId);
+      if (message) {
+        await this.refreshMatchScores(message.matchId);
       }
 
-      return { success: true, eloUpdated: false };
+      return { success: true, eloUpdated };
     } catch (error) {
       console.error("Error processing judge rating:", error);
       return { success: false };
     }
   }
 
-  private static async updateJudgeElos(judge1Id: string, judge2Id: string, agreed: boolean): Promise<void> {
+  private static async requestAiTiebreak(messageId: string): Promise<AiEvaluation | undefined> {
+    const existing = await storage.getMessageAiEvaluation(messageId);
+    if (existing) return existing;
+
+    const message = await storage.getMessage(messageId);
+    if (!message) return undefined;
+
+    // Give the AI the moves leading up to this one, as the judges saw them
+    const scoredMessages = await this.getScoredMessages(message.matchId);
+    const previousMessages = scoredMessages
+      .filter(msg => msg.sentAt && message.sentAt && msg.sentAt < message.sentAt)
+      .map(msg => ({ content: msg.content, rating: msg.rating ?? undefined }));
+
+    // Judge the move against the match's scenario and the side that sent it
+    const match = await storage.getMatch(message.matchId);
+    const scenario = match?.scenarioId ? await storage.getScenario(match.scenarioId) : undefined;
+    const context = match && scenario
+      ? ScenarioService.describeForEvaluation(scenario, message.userId === match.player1Id ? 'player1' : 'player2')
+      : "";
+
+    const evaluation = await evaluateMessage(message.content, context, previousMessages);
+    if (evaluation.isFallback) {
+      // Don't settle a disputed rating with a placeholder; the judges' average stands
+      return undefined;
+    }
+
+    return await storage.createAiEvaluation({
+      messageId,
+      rating: evaluation.rating,
+      explanation: evaluation.explanation,
+      score: evaluation.score,
+    });
+  }
+
+  private static async updateJudgeElos(outcomes: Array<{ judgeId: string; agreement: number }>): Promise<void> {
     try {
-      const judge1 = await storage.getUser(judge1Id);
-      const judge2 = await storage.getUser(judge2Id);
-      
-      if (!judge1 || !judge2) return;
-
-      const JUDGE_ELO_K_FACTOR = 16; // Smaller K-factor for judges
-      const AGREEMENT_BONUS = 10;  // Points gained for agreement
-      const DISAGREEMENT_PENALTY = 5; // Points lost for disagreement
-
-      if (agreed) {
-        // Both judges agree - they both gain ELO
-        const newElo1 = Math.max(800, judge1.judgeElo + AGREEMENT_BONUS);
-        const newElo2 = Math.max(800, judge2.judgeElo + AGREEMENT_BONUS);
-
-        await storage.updateJudgeElo(judge1Id, newElo1);
-        await storage.updateJudgeElo(judge2Id, newElo2);
-        await storage.updateJudgeStats(judge1Id, true);
-        await storage.updateJudgeStats(judge2Id, true);
-      } else {
-        // Judges disagree - they both lose ELO
-        const newElo1 = Math.max(800, judge1.judgeElo - DISAGREEMENT_PENALTY);
-        const newElo2 = Math.max(800, judge2.judgeElo - DISAGREEMENT_PENALTY);
-
-        await storage.updateJudgeElo(judge1Id, newElo1);
-        await storage.updateJudgeElo(judge2Id, newElo2);
-        await storage.updateJudgeStats(judge1Id, false);
-        await storage.updateJudgeStats(judge2Id, false);
+      for (const { judgeId, agreement } of outcomes) {
+        const judge = await storage.getUser(judgeId);
+        if (!judge) continue;
+
+        const newElo = Math.max(800, judge.judgeElo + judgeEloChange(agreement));
+        await storage.updateJudgeElo(judgeId, newElo);
+        await storage.updateJudgeStats(judgeId, agreement);
       }
     } catch (error) {
       console.error("Error updating judge ELOs:", error);
@@ -1,18 +1,62 @@
 import { storage } from "../storage";
+import type { GameMode, MatchType, Queue } from "@shared/schema";
+import { GAME_MODES } from "@shared/gameModes";
+import { TIME_CONTROLS } from "@shared/timeControls";
+import { CalibrationService } from "./calibration";
+import { BlindJudgingService } from "./blindJudging";
+import { GameEngine } from "./gameEngine";
+import { ReadyCheckService, type ReadyCheckStatus } from "./readyCheck";
+import { ScenarioService } from "./scenarios";
+import { RematchService } from "./rematches";
+import { ChallengeService } from "./challenges";
+
+interface JudgeSelection {
+  entry: Queue;
+  reason: string;
+  skippedJudges: Array<{ judgeId: string; reason: string }>;
+}
+
+interface QueueStatus {
+  inQueue: boolean;
+  matched?: boolean;
+  cooldownUntil?: Date | null; // Set after declining or missing a ready check
+  matchType?: MatchType;
+  gameMode?: GameMode;
+  position?: number;
+  estimatedWaitTime?: number | null; // null when no matches have formed recently to estimate from
+  waitingOn?: string;
+  eloRange?: { min: number; max: number };
+}
 
 interface MatchmakingResult {
   success: boolean;
   matchId?: string;
-  opponentId?: string;
+  role?: 'player' | 'judge';
   queuePosition?: number;
+  readyCheck?: ReadyCheckStatus;
+  error?: string;
 }
 
 export class MatchmakingService {
   private static readonly ELO_RANGE_BASE = 100;
   private static readonly ELO_RANGE_EXPANSION = 50; // Expand by 50 every 30 seconds
   private static readonly QUEUE_TIME_EXPANSION = 30000; // 30 seconds
+  private static readonly RECENT_OPPONENT_WINDOW = 10; // A judge can't have played either player in their last 10 matches
+  private static readonly RECENT_JUDGE_WINDOW = 5; // ...or judged either player in their last 5 matches
+  private static readonly JUDGE_PAIR_WINDOW = 10; // Avoid pairing judges who sat together in the first judge's last 10 matches
+  private static readonly MATCHMAKING_INTERVAL = 2000; // 2 seconds between matchmaking passes
+  private static readonly WAIT_ESTIMATE_WINDOW = 30 * 60 * 1000; // Match formation rate over the last 30 minutes
+  private static readonly FLEX_PRIORITY_BONUS = 60000; // Flex entries are picked as if they joined a minute earlier
+  private static readonly REMATCH_WINDOW = 5; // Opponents from a player's last 5 matches count as a rematch
+  private static readonly REMATCH_PENALTY = 300; // ELO-equivalent penalty for the most recent opponent, scaled down for older ones
+  private static readonly REMATCH_PENALTY_DECAY = 50; // Penalty shrinks by 50 every 30 seconds in queue
+  private static readonly QUEUE_STALE_AFTER = 90000; // Evict entries that haven't polled for 90 seconds (background tabs poll slowly)
+  private static readonly REPEAT_PAIRING_STATS_WINDOW = 7 * 24 * 60 * 60 * 1000; // Repeat-pairing rate over the last week
+
+  private static workerTimer: NodeJS.Timeout | null = null;
+  private static isMatching = false;
 
-  static async joinQueue(userId: string, matchType: 'player' | 'judge' = 'player'): Promise<MatchmakingResult> {
+  static async joinQueue(userId: string, matchType: MatchType = 'player', gameMode: GameMode = 'standard'): Promise<MatchmakingResult> {
     try {
       // Get user's current ELO
       const user = await storage.getUser(userId);
@@ -20,24 +64,21 @@ export class MatchmakingService {
         return { success: false };
       }
 
-      // Check if user is already in an active match
-      const activeMatch = await storage.getUserActiveMatch(userId);
-      if (activeMatch) {
-        return { success: false };
+      // Check if user is already in an active match, an accepted challenge or a ready check
+      if (await storage.isUserBusy(userId)) {
+        return { success: false, error: "You are already in a match" };
       }
 
-      // Join the queue
-      await storage.joinQueue(userId, user.elo, matchType);
-
-      // Try to find a match immediately if joining as player
-      if (matchType === 'player') {
-        const matchResult = await this.findMatch(userId, user.elo);
-        if (matchResult.success) {
-          return matchResult;
-        }
+      if (user.queueCooldownUntil && user.queueCooldownUntil > new Date()) {
+        const seconds = Math.ceil((user.queueCooldownUntil.getTime() - Date.now()) / 1000);
+        return { success: false, error: `You declined a match recently. You can queue again in ${seconds} seconds` };
       }
 
-      return { success: true, queuePosition: 1 };
+      // Join the queue; the background matchmaker picks it up from here
+      await storage.joinQueue(userId, user.elo, matchType, gameMode);
+
+      const status = await this.getQueueStatus(userId);
+      return { success: true, queuePosition: status.position };
     } catch (error) {
       console.error("Error joining queue:", error);
       return { success: false };
@@ -52,77 +93,351 @@ export class MatchmakingService {
     }
   }
 
-  static async findMatch(userId: string, userElo: number): Promise<MatchmakingResult> {
+  // Clients only check whether the matchmaker has placed them in a match, and in
+  // which role, since flex entries don't know in advance. A match that is still in
+  // its ready check comes back as `readyCheck` for the client to accept or decline.
+  static async checkForMatch(userId: string): Promise<MatchmakingResult> {
     try {
-      const queueEntry = await storage.getUserInQueue(userId);
-      if (!queueEntry) {
-        return { success: false };
+      const activeMatch = await storage.getUserActiveMatch(userId);
+      if (activeMatch) {
+        return { success: true, matchId: activeMatch.id, role: GameEngine.getParticipantRole(activeMatch, userId) ?? undefined };
       }
 
-      // Calculate ELO range based on queue time
-      const queueTime = Date.now() - (queueEntry.joinedAt?.getTime() || Date.now());
-      const expansions = Math.floor(queueTime / this.QUEUE_TIME_EXPANSION);
-      const eloRange = this.ELO_RANGE_BASE + (expansions * this.ELO_RANGE_EXPANSION);
-
-      // Find opponent in queue
-      const opponent = await storage.findMatchInQueue(userElo, eloRange);
-      
-      if (!opponent || opponent.userId === userId) {
-        return { success: false };
+      const readyCheck = await ReadyCheckService.getStatus(userId);
+      if (readyCheck) {
+        return { success: false, readyCheck };
       }
 
-      // Find two judges in queue
-      const judge1 = await storage.findJudgeInQueue();
-      if (!judge1) {
-        return { success: false };
-      }
+      // Polling doubles as the queue heartbeat
+      await storage.touchQueueEntry(userId);
+      return { success: false };
+    } catch (error) {
+      console.error("Error checking for match:", error);
+      return { success: false };
+    }
+  }
 
-      const judge2 = await storage.findJudgeInQueue(judge1.userId); // Exclude first judge
-      if (!judge2) {
-        return { success: false };
-      }
+  static start(): void {
+    if (this.workerTimer) return;
+    this.workerTimer = setInterval(() => this.runMatchmaking(), this.MATCHMAKING_INTERVAL);
+  }
 
-      // Create match with two judges
-      const match = await storage.createMatch(userId, opponent.userId, judge1.userId, judge2.userId);
-      await storage.startMatch(match.id, opponent.userId, judge1.userId, judge2.userId);
+  // One matchmaking pass: the longest-waiting players get first pick of opponents and
+  // judges. Pairings are planned from a snapshot of the queue and only become matches
+  // if storage can claim all four queue rows at once.
+  static async runMatchmaking(): Promise<void> {
+    if (this.isMatching) return;
+    this.isMatching = true;
 
-      // Remove all participants from queue
-      await storage.leaveQueue(userId);
-      await storage.leaveQueue(opponent.userId);
-      await storage.leaveQueue(judge1.userId);
-      await storage.leaveQueue(judge2.userId);
+    try {
+      // Drop anyone who closed the tab before they can be matched into a dead game
+      await storage.evictStaleQueueEntries(new Date(Date.now() - this.QUEUE_STALE_AFTER));
+      // Participants of lapsed ready checks rejoin the queue in time for this pass
+      await ReadyCheckService.expireReadyChecks();
+      await RematchService.processPendingRematches();
 
-      return {
-        success: true,
-        matchId: match.id,
-        opponentId: opponent.userId,
-      };
+      // Challenge matches whose named judges never accepted fall back to the judge queue
+      await ChallengeService.releaseUnansweredJudges();
+
+      const matchedIds = new Set<string>();
+      await this.fillChallengeJudges(matchedIds);
+
+      const players = this.byPriority(await storage.getPlayersInQueue());
+
+      for (const seeker of players) {
+        if (matchedIds.has(seeker.userId)) continue;
+
+        // Recent opponents sit further away than their ELO alone suggests, so a
+        // fresh opponent is found first; the penalty fades the longer the seeker waits
+        const eloRange = this.getEloRange(seeker);
+        const recentOpponentIds = await this.getRecentOpponentIds(seeker.userId);
+        const penalties = new Map(players.map(candidate => [
+          candidate.userId,
+          this.getRematchPenalty(seeker, recentOpponentIds.indexOf(candidate.userId)),
+        ]));
+        const opponents = players
+          .filter(candidate =>
+            candidate.userId !== seeker.userId &&
+            candidate.gameMode === seeker.gameMode &&
+            !matchedIds.has(candidate.userId) &&
+            Math.abs(candidate.elo - seeker.elo) + penalties.get(candidate.userId)! <= eloRange
+          )
+          .sort((a, b) => penalties.get(a.userId)! - penalties.get(b.userId)!);
+
+        // A flex opponent may be the judge this match needs, so fall through to the
+        // next opponent when the judges can't be filled without them
+        let opponent: Queue | undefined;
+        let judges: [JudgeSelection, JudgeSelection] | null = null;
+        for (const candidate of opponents) {
+          judges = await this.selectJudges(seeker.userId, candidate.userId, Array.from(matchedIds));
+          if (judges) {
+            opponent = candidate;
+            break;
+          }
+        }
+        if (!opponent || !judges) continue;
+        const [judge1, judge2] = judges.map(selection => selection.entry);
+        const [player1Id, player2Id] = await GameEngine.orderPlayers(seeker.gameMode, seeker.userId, opponent.userId);
+        const timeControl = TIME_CONTROLS[GAME_MODES[seeker.gameMode].timeControl];
+
+        const match = await storage.createMatchFromQueue(
+          {
+            player1Id,
+            player2Id,
+            judge1Id: judge1.userId,
+            judge2Id: judge2.userId,
+            gameMode: seeker.gameMode,
+            scenarioId: await ScenarioService.pickForMatch(player1Id, player2Id),
+            timeLimit: timeControl.base,
+            timeIncrement: timeControl.increment,
+            blindJudging: BlindJudgingService.BLIND_BY_DEFAULT,
+            repeatPairing: recentOpponentIds.includes(opponent.userId),
+          },
+          judges.map((selection, index) => ({
+            judgeId: selection.entry.userId,
+            slot: index === 0 ? 'judge1' : 'judge2',
+            reason: selection.reason,
+            skippedJudges: selection.skippedJudges,
+          })),
+          ReadyCheckService.getDeadline()
+        );
+        if (!match) continue;
+
+        [seeker, opponent, judge1, judge2].forEach(entry => matchedIds.add(entry.userId));
+      }
     } catch (error) {
-      console.error("Error finding match:", error);
-      return { success: false };
+      console.error("Error running matchmaking:", error);
+    } finally {
+      this.isMatching = false;
     }
   }
 
-  static async getQueueStatus(userId: string): Promise<{
-    inQueue: boolean;
-    position?: number;
-    estimatedWaitTime?: number;
-  }> {
+  // Opponents from the player's most recent matches, newest first
+  private static async getRecentOpponentIds(userId: string): Promise<string[]> {
+    const recentMatches = await storage.getRecentPlayerMatches(userId, this.REMATCH_WINDOW);
+    return recentMatches
+      .map(match => match.player1Id === userId ? match.player2Id : match.player1Id)
+      .filter((id): id is string => !!id);
+  }
+
+  // `recency` is the opponent's index in the recent-opponent list, or -1 if not recent
+  private static getRematchPenalty(seeker: Queue, recency: number): number {
+    if (recency < 0) return 0;
+
+    const queueTime = Date.now() - (seeker.joinedAt?.getTime() || Date.now());
+    const expansions = Math.floor(queueTime / this.QUEUE_TIME_EXPANSION);
+    const penalty = this.REMATCH_PENALTY * (this.REMATCH_WINDOW - recency) / this.REMATCH_WINDOW;
+    return Math.max(0, penalty - expansions * this.REMATCH_PENALTY_DECAY);
+  }
+
+  static async getRepeatPairingStats(): Promise<{ matches: number; repeatPairings: number; rate: number | null }> {
+    const since = new Date(Date.now() - this.REPEAT_PAIRING_STATS_WINDOW);
+    const { matches, repeatPairings } = await storage.getRepeatPairingCounts(since);
+    return { matches, repeatPairings, rate: matches > 0 ? repeatPairings / matches : null };
+  }
+
+  // Accepted challenges and rematches without named judges wait for two from the queue,
+  // and get them ahead of queued players since both players are already committed
+  private static async fillChallengeJudges(matchedIds: Set<string>): Promise<void> {
+    const waitingMatches = await storage.getMatchesAwaitingJudges();
+
+    for (const waiting of waitingMatches) {
+      if (!waiting.player2Id) continue;
+
+      const judges = await this.selectJudges(waiting.player1Id, waiting.player2Id, Array.from(matchedIds));
+      if (!judges) continue;
+      const [judge1, judge2] = judges.map(selection => selection.entry);
+
+      const match = await storage.claimJudgesForMatch(
+        waiting.id,
+        judge1.userId,
+        judge2.userId,
+        judges.map((selection, index) => ({
+          judgeId: selection.entry.userId,
+          slot: index === 0 ? 'judge1' : 'judge2',
+          reason: selection.reason,
+          skippedJudges: selection.skippedJudges,
+        }))
+      );
+      if (!match) continue;
+
+      [judge1, judge2].forEach(entry => matchedIds.add(entry.userId));
+      await CalibrationService.scheduleForMatch(match);
+    }
+  }
+
+  // Queue entries in the order they get picked. Flex entries count as having waited
+  // longer than they have, as a reward for letting the matchmaker choose their role.
+  private static byPriority(entries: Queue[]): Queue[] {
+    return [...entries].sort((a, b) => this.queuedSince(a) - this.queuedSince(b));
+  }
+
+  private static queuedSince(entry: Queue): number {
+    const joinedAt = entry.joinedAt?.getTime() ?? Date.now();
+    return entry.matchType === 'flex' ? joinedAt - this.FLEX_PRIORITY_BONUS : joinedAt;
+  }
+
+  // Picks the two longest-waiting judges who haven't recently played or judged either
+  // player, preferring a second judge who hasn't sat with the first one lately. Each
+  // pick carries the reason it was made and the judges passed over before it.
+  private static async selectJudges(player1Id: string, player2Id: string, excludeUserIds: string[]): Promise<[JudgeSelection, JudgeSelection] | null> {
+    const candidates = this.byPriority(await storage.getJudgesInQueue([player1Id, player2Id, ...excludeUserIds]));
+    if (candidates.length < 2) return null;
+
+    const conflicts = new Map<string, string>();
+    for (const [playerId, label] of [[player1Id, 'player 1'], [player2Id, 'player 2']]) {
+      const recentMatches = await storage.getRecentPlayerMatches(
+        playerId,
+        Math.max(this.RECENT_OPPONENT_WINDOW, this.RECENT_JUDGE_WINDOW)
+      );
+
+      recentMatches.slice(0, this.RECENT_OPPONENT_WINDOW).forEach(match => {
+        const opponentId = match.player1Id === playerId ? match.player2Id : match.player1Id;
+        if (opponentId && !conflicts.has(opponentId)) {
+          conflicts.set(opponentId, `Played ${label} in one of their last ${this.RECENT_OPPONENT_WINDOW} matches`);
+        }
+      });
+      recentMatches.slice(0, this.RECENT_JUDGE_WINDOW).forEach(match => {
+        for (const judgeId of [match.judge1Id, match.judge2Id]) {
+          if (judgeId && !conflicts.has(judgeId)) {
+            conflicts.set(judgeId, `Judged ${label} in one of their last ${this.RECENT_JUDGE_WINDOW} matches`);
+          }
+        }
+      });
+    }
+
+    const eligible = candidates.filter(candidate => !conflicts.has(candidate.userId));
+    if (eligible.length < 2) return null;
+
+    const conflictSkips = (upTo: Queue) => candidates
+      .slice(0, candidates.indexOf(upTo))
+      .filter(candidate => conflicts.has(candidate.userId))
+      .map(candidate => ({ judgeId: candidate.userId, reason: conflicts.get(candidate.userId)! }));
+
+    const flexNote = (entry: Queue) => entry.matchType === 'flex' ? " (flex entry assigned to judge)" : "";
+
+    const judge1 = eligible[0];
+    const first: JudgeSelection = {
+      entry: judge1,
+      reason: "Longest-waiting judge with no conflict of interest" + flexNote(judge1),
+      skippedJudges: conflictSkips(judge1),
+    };
+
+    // Spread pairings out so the same two judges don't keep deciding matches together
+    const recentCoJudges = new Set<string>();
+    const judged = await storage.getRecentJudgedMatches(judge1.userId, this.JUDGE_PAIR_WINDOW);
+    judged.forEach(match => {
+      const coJudgeId = match.judge1Id === judge1.userId ? match.judge2Id : match.judge1Id;
+      if (coJudgeId) recentCoJudges.add(coJudgeId);
+    });
+
+    const remaining = eligible.slice(1);
+    const freshPartner = remaining.find(candidate => !recentCoJudges.has(candidate.userId));
+    const judge2 = freshPartner ?? remaining[0];
+    const pairingSkips = remaining
+      .slice(0, remaining.indexOf(judge2))
+      .map(candidate => ({ judgeId: candidate.userId, reason: "Judged alongside judge 1 recently" }));
+
+    const second: JudgeSelection = {
+      entry: judge2,
+      reason: (freshPartner
+        ? "Longest-waiting judge with no conflict of interest who hasn't recently judged alongside judge 1"
+        : "Longest-waiting judge with no conflict of interest; every eligible judge has recently judged alongside judge 1") + flexNote(judge2),
+      skippedJudges: [...conflictSkips(judge2).filter(skip => skip.judgeId !== judge1.userId), ...pairingSkips],
+    };
+
+    return [first, second];
+  }
+
+  static async getQueueStatus(userId: string): Promise<QueueStatus> {
     try {
       const queueEntry = await storage.getUserInQueue(userId);
       if (!queueEntry) {
-        return { inQueue: false };
+        // Leaving the queue by being matched isn't the same as being dropped from it
+        const match = await storage.getUserActiveMatch(userId) ?? await storage.getUserReadyCheck(userId);
+        const user = await storage.getUser(userId);
+        return { inQueue: false, matched: !!match, cooldownUntil: user?.queueCooldownUntil ?? null };
+      }
+
+      const players = await storage.getPlayersInQueue();
+      const judges = await storage.getJudgesInQueue([]);
+      const queuedSince = this.queuedSince(queueEntry);
+      const isAhead = (entry: Queue) => entry.userId !== userId && this.queuedSince(entry) < queuedSince;
+      const others = (entries: Queue[]) => entries.filter(entry => entry.userId !== userId);
+
+      let position: number;
+      let waitingOn: string;
+      let eloRange: { min: number; max: number } | undefined;
+
+      if (queueEntry.matchType === 'player') {
+        // Players compete for opponents in their game mode and within their own ELO band
+        const range = this.getEloRange(queueEntry);
+        const opponents = others(players).filter(entry =>
+          entry.gameMode === queueEntry.gameMode && Math.abs(entry.elo - queueEntry.elo) <= range
+        );
+        position = opponents.filter(isAhead).length + 1;
+        eloRange = { min: queueEntry.elo - range, max: queueEntry.elo + range };
+
+        // A flex opponent can't also judge, so count judges without them
+        const flexOpponent = opponents.length > 0 && opponents.every(entry => entry.matchType === 'flex');
+        const judgeCount = judges.length - (flexOpponent ? 1 : 0);
+
+        const missing = [];
+        if (opponents.length === 0) missing.push(`a ${GAME_MODES[queueEntry.gameMode].name} opponent near your rating`);
+        if (judgeCount < 2) missing.push(`${2 - judgeCount} more judge${judgeCount === 1 ? '' : 's'}`);
+        waitingOn = missing.length > 0 ? `Waiting for ${missing.join(' and ')}` : "Match forming...";
+      } else if (queueEntry.matchType === 'judge') {
+        // Judges are picked in priority order, regardless of ELO
+        position = others(judges).filter(isAhead).length + 1;
+
+        if (players.length < 2) {
+          waitingOn = `Waiting for ${2 - players.length} more player${players.length === 1 ? '' : 's'}`;
+        } else if (position > 2) {
+          waitingOn = `${position - 1} judges ahead of you`;
+        } else if (judges.length < 2) {
+          waitingOn = "Waiting for 1 more judge";
+        } else {
+          waitingOn = "Match forming...";
+        }
+      } else {
+        // Flex entries fill whichever seat is open, so any four people make a match
+        const everyone = new Map([...players, ...judges].map(entry => [entry.userId, entry]));
+        position = Array.from(everyone.values()).filter(isAhead).length + 1;
+
+        const needed = 4 - everyone.size;
+        waitingOn = needed > 0
+          ? `Waiting for ${needed} more ${needed === 1 ? 'person' : 'people'} - you'll play or judge, whichever is needed`
+          : "Match forming - you'll play or judge, whichever is needed";
       }
 
-      const queueTime = Date.now() - (queueEntry.joinedAt?.getTime() || Date.now());
       return {
         inQueue: true,
-        position: 1, // Simplified for now
-        estimatedWaitTime: Math.max(0, 30000 - queueTime), // Estimate based on queue expansion
+        matchType: queueEntry.matchType,
+        gameMode: queueEntry.gameMode,
+        position,
+        estimatedWaitTime: await this.estimateWaitTime(position),
+        waitingOn,
+        eloRange,
       };
     } catch (error) {
       console.error("Error getting queue status:", error);
       return { inQueue: false };
     }
   }
+
+  // Every match takes two players and two judges, so whoever is at `position` needs
+  // ceil(position / 2) matches to form. Recent formation rate says how long that takes.
+  private static async estimateWaitTime(position: number): Promise<number | null> {
+    const recentMatches = await storage.countMatchesCreatedSince(new Date(Date.now() - this.WAIT_ESTIMATE_WINDOW));
+    if (recentMatches === 0) return null;
+
+    const timePerMatch = this.WAIT_ESTIMATE_WINDOW / recentMatches;
+    return Math.max(this.MATCHMAKING_INTERVAL, Math.ceil(position / 2) * timePerMatch);
+  }
+
+  private static getEloRange(entry: Queue): number {
+    const queueTime = Date.now() - (entry.joinedAt?.getTime() || Date.now());
+    const expansions = Math.floor(queueTime / this.QUEUE_TIME_EXPANSION);
+    return this.ELO_RANGE_BASE + (expansions * this.ELO_RANGE_EXPANSION);
+  }
 }
@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { determineMatchWinner } from "./openai";
+
+describe("determineMatchWinner", () => {
+  it("picks the player with the higher average score", async () => {
+    const result = await determineMatchWinner(
+      [{ rating: 'great', score: 8 }, { rating: 'good', score: 5 }],
+      [{ rating: 'good', score: 5 }, { rating: 'good', score: 5 }]
+    );
+    assert.equal(result.winnerId, 1);
+    assert.equal(result.player1Score, 6.5);
+    assert.equal(result.player2Score, 5);
+  });
+
+  it("compares averages, not totals", async () => {
+    const result = await determineMatchWinner(
+      [{ rating: 'good', score: 5 }, { rating: 'good', score: 5 }, { rating: 'good', score: 5 }],
+      [{ rating: 'great', score: 8 }]
+    );
+    assert.equal(result.winnerId, 2);
+  });
+
+  it("calls equal averages a tie", async () => {
+    const result = await determineMatchWinner([{ rating: 'good', score: 5 }], [{ rating: 'good', score: 5 }]);
+    assert.equal(result.winnerId, null);
+  });
+
+  it("scores a player without rated messages as zero", async () => {
+    const result = await determineMatchWinner([], [{ rating: 'miss', score: 3 }]);
+    assert.equal(result.player1Score, 0);
+    assert.equal(result.winnerId, 2);
+  });
+
+  it("rounds scores to one decimal place", async () => {
+    const result = await determineMatchWinner(
+      [{ rating: 'great', score: 8 }, { rating: 'excellent', score: 7 }, { rating: 'excellent', score: 7 }],
+      []
+    );
+    assert.equal(result.player1Score, 7.3);
+  });
+});
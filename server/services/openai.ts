@@ -10,6 +10,7 @@ interface MoveEvaluation {
   rating: MoveRating;
   explanation: string;
   score: number; // 1-10 scale for match scoring
+  isFallback?: boolean; // true when the AI could not be reached and the rating is a placeholder
 }
 
 export async function evaluateMessage(
@@ -86,6 +87,7 @@ Provide your response in JSON format:
       rating: 'good',
       explanation: "Message evaluation temporarily unavailable.",
       score: 5,
+      isFallback: true,
     };
   }
 }
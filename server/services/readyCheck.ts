@@ -0,0 +1,104 @@
+import { storage } from "../storage";
+import { CalibrationService } from "./calibration";
+import { GameEngine } from "./gameEngine";
+
+export interface ReadyCheckStatus {
+  matchId: string;
+  role: 'player' | 'judge' | null;
+  deadline: Date | null;
+  accepted: boolean;
+  readyCount: number;
+  total: number;
+}
+
+export class ReadyCheckService {
+  private static readonly READY_CHECK_WINDOW = 20000; // 20 seconds for all four participants to accept
+  private static readonly DECLINE_COOLDOWN = 2 * 60 * 1000; // Queue lockout after declining or missing a ready check
+
+  static getDeadline(): Date {
+    return new Date(Date.now() + this.READY_CHECK_WINDOW);
+  }
+
+  static async getStatus(userId: string): Promise<ReadyCheckStatus | undefined> {
+    const current = await storage.getUserReadyCheck(userId);
+    if (!current) return undefined;
+
+    const participants = await storage.getMatchReadyChecks(current.match.id);
+    return {
+      matchId: current.match.id,
+      role: GameEngine.getParticipantRole(current.match, userId),
+      deadline: current.match.readyDeadline,
+      accepted: !!current.readyCheck.readyAt,
+      readyCount: participants.filter(p => p.readyAt).length,
+      total: participants.length,
+    };
+  }
+
+  static async accept(matchId: string, userId: string): Promise<{
+    success: boolean;
+    started?: boolean;
+    error?: string;
+  }> {
+    try {
+      const marked = await storage.markReady(matchId, userId);
+      if (!marked) {
+        return { success: false, error: "This ready check is no longer open" };
+      }
+
+      // The last participant to accept starts the clock
+      const match = await storage.startReadyMatch(matchId);
+      if (match) {
+        await CalibrationService.scheduleForMatch(match);
+      }
+      return { success: true, started: !!match };
+    } catch (error) {
+      console.error("Error accepting ready check:", error);
+      return { success: false, error: "Failed to accept match" };
+    }
+  }
+
+  static async decline(matchId: string, userId: string): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      const participants = await storage.getMatchReadyChecks(matchId);
+      if (!participants.some(p => p.userId === userId)) {
+        return { success: false, error: "You are not part of this match" };
+      }
+
+      const cancelled = await storage.cancelReadyCheck(matchId, [userId], this.getCooldownEnd());
+      if (!cancelled) {
+        return { success: false, error: "This ready check is no longer open" };
+      }
+      return { success: true };
+    } catch (error) {
+      console.error("Error declining ready check:", error);
+      return { success: false, error: "Failed to decline match" };
+    }
+  }
+
+  // Calls off ready checks past their deadline, treating anyone who didn't accept as
+  // having declined
+  static async expireReadyChecks(): Promise<void> {
+    const expired = await storage.getExpiredReadyChecks(new Date());
+
+    for (const match of expired) {
+      const participants = await storage.getMatchReadyChecks(match.id);
+      const missed = participants.filter(p => !p.readyAt).map(p => p.userId);
+
+      // Everyone accepted just as the deadline passed
+      if (missed.length === 0) {
+        const started = await storage.startReadyMatch(match.id);
+        if (started) await CalibrationService.scheduleForMatch(started);
+        continue;
+      }
+
+      await storage.cancelReadyCheck(match.id, missed, this.getCooldownEnd());
+    }
+  }
+
+  private static getCooldownEnd(): Date {
+    return new Date(Date.now() + this.DECLINE_COOLDOWN);
+  }
+}
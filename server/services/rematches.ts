@@ -0,0 +1,201 @@
+import { storage, type RematchSeat } from "../storage";
+import { CalibrationService } from "./calibration";
+import { ScenarioService } from "./scenarios";
+import type { Match, Rematch } from "@shared/schema";
+
+export interface SeriesScore {
+  games: number;
+  wins: Record<string, number>; // Keyed by user ID, since players can swap seats between games
+  draws: number;
+}
+
+export class RematchService {
+  private static readonly REMATCH_WINDOW = 30000; // 30 seconds for both players to accept
+  private static readonly MAX_SERIES_LENGTH = 50; // Stop walking a rematch chain after this many games
+
+  static async requestRematch(match: Match, userId: string, swapFirstMove: boolean): Promise<{
+    success: boolean;
+    rematch?: Rematch;
+    error?: string;
+  }> {
+    try {
+      if (match.status !== 'completed' && match.status !== 'forfeit') {
+        return { success: false, error: "The match isn't over yet" };
+      }
+      const seat = this.getSeat(match, userId);
+      if (!match.player2Id || (seat !== 'player1' && seat !== 'player2')) {
+        return { success: false, error: "Only the players can ask for a rematch" };
+      }
+
+      // Asking for the rematch counts as accepting it
+      const rematch = await storage.createRematch({
+        matchId: match.id,
+        requestedBy: userId,
+        swapFirstMove,
+        player1AcceptedAt: seat === 'player1' ? new Date() : null,
+        player2AcceptedAt: seat === 'player2' ? new Date() : null,
+        expiresAt: new Date(Date.now() + this.REMATCH_WINDOW),
+      });
+      if (!rematch) {
+        return { success: false, error: "A rematch has already been requested" };
+      }
+      return { success: true, rematch };
+    } catch (error) {
+      console.error("Error requesting rematch:", error);
+      return { success: false, error: "Failed to request rematch" };
+    }
+  }
+
+  static async respondToRematch(match: Match, userId: string, accept: boolean): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      const rematch = await storage.getMatchRematch(match.id);
+      const seat = this.getSeat(match, userId);
+      if (!rematch || !seat) {
+        return { success: false, error: "There is no rematch to answer" };
+      }
+
+      const answered = await storage.recordRematchAnswer(rematch.id, seat, accept);
+      if (!answered) {
+        return { success: false, error: "This rematch is no longer open" };
+      }
+
+      await this.tryStartRematch(rematch.id);
+      return { success: true };
+    } catch (error) {
+      console.error("Error answering rematch:", error);
+      return { success: false, error: "Failed to answer rematch" };
+    }
+  }
+
+  // Run by the matchmaker so rematches start or lapse without anyone polling
+  static async processPendingRematches(): Promise<void> {
+    const pending = await storage.getPendingRematches();
+    for (const rematch of pending) {
+      await this.tryStartRematch(rematch.id);
+    }
+  }
+
+  // What a participant of the finished match sees of its rematch, including the new
+  // match to move to once it has been created with them in it
+  static async getStatus(match: Match, userId: string): Promise<any> {
+    const rematch = await storage.getMatchRematch(match.id);
+    if (!rematch) return null;
+
+    const seat = this.getSeat(match, userId);
+    const newMatch = rematch.newMatchId ? await storage.getMatch(rematch.newMatchId) : undefined;
+    return {
+      id: rematch.id,
+      status: rematch.status,
+      requestedBy: rematch.requestedBy,
+      swapFirstMove: rematch.swapFirstMove,
+      expiresAt: rematch.expiresAt,
+      playersAccepted: [rematch.player1AcceptedAt, rematch.player2AcceptedAt].filter(Boolean).length,
+      myAnswer: seat === 'player1' ? (rematch.player1AcceptedAt ? true : null)
+        : seat === 'player2' ? (rematch.player2AcceptedAt ? true : null)
+        : seat === 'judge1' ? rematch.judge1Accepted
+        : seat === 'judge2' ? rematch.judge2Accepted
+        : null,
+      newMatchId: newMatch && this.getSeat(newMatch, userId) ? newMatch.id : null,
+    };
+  }
+
+  // Wins and draws across a match and the games it was a rematch of
+  static async getSeriesScore(match: Match): Promise<SeriesScore | null> {
+    if (!match.rematchOf) return null;
+
+    const score: SeriesScore = { games: 0, wins: {}, draws: 0 };
+    let current: Match | undefined = match;
+    while (current && score.games < this.MAX_SERIES_LENGTH) {
+      if (current.status === 'completed' || current.status === 'forfeit') {
+        score.games++;
+        if (current.winnerId) {
+          score.wins[current.winnerId] = (score.wins[current.winnerId] ?? 0) + 1;
+        } else {
+          score.draws++;
+        }
+      }
+      current = current.rematchOf ? await storage.getMatch(current.rematchOf) : undefined;
+    }
+    return score;
+  }
+
+  // Starts the rematch once both players have accepted and the judges have answered,
+  // or the window has closed on them. The previous judges come back only if both said
+  // yes and are free; otherwise the match waits for judges from the queue, where either
+  // player can cancel it and the sweeper calls it off if no judges come.
+  private static async tryStartRematch(rematchId: string): Promise<void> {
+    const rematch = await storage.getRematch(rematchId);
+    if (!rematch || rematch.status !== 'pending') return;
+
+    const expired = Date.now() >= rematch.expiresAt.getTime();
+    if (!rematch.player1AcceptedAt || !rematch.player2AcceptedAt) {
+      if (expired) await storage.closeRematch(rematch.id, 'expired');
+      return;
+    }
+    const judgesAnswered = rematch.judge1Accepted !== null && rematch.judge2Accepted !== null;
+    if (!judgesAnswered && !expired) return;
+
+    const previous = await storage.getMatch(rematch.matchId);
+    if (!previous?.player2Id) return;
+
+    // Either player may have moved on to another match while waiting
+    for (const playerId of [previous.player1Id, previous.player2Id]) {
+      if (await storage.isUserBusy(playerId)) {
+        await storage.closeRematch(rematch.id, 'expired');
+        return;
+      }
+    }
+    if (!(await storage.closeRematch(rematch.id, 'accepted'))) return;
+
+    let judgeIds: [string, string] | null = null;
+    if (rematch.judge1Accepted && rematch.judge2Accepted && previous.judge1Id && previous.judge2Id &&
+        !(await storage.isUserBusy(previous.judge1Id)) && !(await storage.isUserBusy(previous.judge2Id))) {
+      judgeIds = [previous.judge1Id, previous.judge2Id];
+    }
+
+    const [player1Id, player2Id] = rematch.swapFirstMove
+      ? [previous.player2Id, previous.player1Id]
+      : [previous.player1Id, previous.player2Id];
+    const match = await storage.createMatch(
+      player1Id,
+      player2Id,
+      judgeIds?.[0],
+      judgeIds?.[1],
+      {
+        gameMode: previous.gameMode,
+        scenarioId: await ScenarioService.pickForMatch(player1Id, player2Id),
+        blindJudging: previous.blindJudging,
+        timeLimit: previous.timeLimit ?? undefined,
+        timeIncrement: previous.timeIncrement,
+        rated: previous.rated,
+        rematchOf: previous.id,
+      }
+    );
+
+    if (judgeIds) {
+      await storage.createJudgeAssignments(judgeIds.map((judgeId, index) => ({
+        matchId: match.id,
+        judgeId,
+        slot: index === 0 ? 'judge1' : 'judge2',
+        reason: "Judged the previous game of this rematch",
+      })));
+      await CalibrationService.scheduleForMatch(match);
+    }
+    await storage.setRematchMatch(rematch.id, match.id);
+
+    for (const participantId of [player1Id, player2Id, ...(judgeIds ?? [])]) {
+      await storage.leaveQueue(participantId);
+    }
+  }
+
+  private static getSeat(match: Match, userId: string): RematchSeat | null {
+    if (match.player1Id === userId) return 'player1';
+    if (match.player2Id === userId) return 'player2';
+    if (match.judge1Id === userId) return 'judge1';
+    if (match.judge2Id === userId) return 'judge2';
+    return null;
+  }
+}
@@ -0,0 +1,88 @@
+import { storage } from "../storage";
+import type { InsertScenario, Match, Scenario } from "@shared/schema";
+
+type PlayerSlot = 'player1' | 'player2';
+
+// Seeded into an empty scenarios table so matches have topics from the first run
+const DEFAULT_SCENARIOS: InsertScenario[] = [
+  {
+    title: "The Vintage Guitar",
+    setup: "A 1962 guitar is for sale at a small shop. The seller knows it is rare; the buyer has done their homework on recent auction prices.",
+    player1Role: "Buyer",
+    player2Role: "Seller",
+    player1Goal: "Walk away with the guitar for no more than $8,000, ideally with the original case thrown in.",
+    player2Goal: "Sell for at least $11,000 and keep the original case out of the deal unless the price is right.",
+  },
+  {
+    title: "The Missing Shipment",
+    setup: "A warehouse manager is on trial after a shipment of medical supplies vanished on their watch. The security footage from that night is incomplete.",
+    player1Role: "Prosecution",
+    player2Role: "Defence",
+    player1Goal: "Convince the court the manager arranged the theft, using the gaps in the footage against them.",
+    player2Goal: "Show the gaps point to a systems failure, not a crime, and raise reasonable doubt about the manager's involvement.",
+  },
+  {
+    title: "The Four-Day Week",
+    setup: "A mid-sized software company is deciding whether to move everyone to a four-day working week next quarter.",
+    player1Role: "Head of People",
+    player2Role: "Chief Financial Officer",
+    player1Goal: "Win approval for a six-month trial of the four-day week across the whole company.",
+    player2Goal: "Limit any change to a single team, or postpone it until the next financial year.",
+  },
+  {
+    title: "The Late Rent",
+    setup: "A tenant is two months behind on rent after losing a job. The landlord has a new applicant ready to move in.",
+    player1Role: "Tenant",
+    player2Role: "Landlord",
+    player1Goal: "Stay in the flat on a repayment plan that starts no earlier than next month.",
+    player2Goal: "Recover the arrears within six weeks or agree a move-out date this month.",
+  },
+  {
+    title: "The Town Square",
+    setup: "The council has funding to redevelop the town square and two proposals have reached the final vote.",
+    player1Role: "Park Campaigner",
+    player2Role: "Market Developer",
+    player1Goal: "Get the square turned into a green park with no permanent commercial buildings.",
+    player2Goal: "Get a covered market approved, keeping at least half the square for stalls.",
+  },
+];
+
+export class ScenarioService {
+  static async ensureDefaults(): Promise<void> {
+    try {
+      if (await storage.countScenarios() > 0) return;
+      for (const scenario of DEFAULT_SCENARIOS) {
+        await storage.createScenario(scenario);
+      }
+    } catch (error) {
+      console.error("Error seeding scenarios:", error);
+    }
+  }
+
+  // A match without a scenario still plays; it just has no set topic
+  static async pickForMatch(player1Id: string, player2Id: string): Promise<string | undefined> {
+    const scenario = await storage.pickScenarioForPlayers([player1Id, player2Id]);
+    return scenario?.id;
+  }
+
+  // Players only see their own goal until the match is over; judges see both
+  static viewFor(scenario: Scenario, match: Match, viewerRole: 'player' | 'judge', userId: string): any {
+    const { player1Goal, player2Goal, createdBy, active, createdAt, ...shared } = scenario;
+    const isOver = match.status === 'completed' || match.status === 'forfeit';
+    const showAll = viewerRole === 'judge' || isOver;
+    return {
+      ...shared,
+      player1Goal: showAll || userId === match.player1Id ? player1Goal : null,
+      player2Goal: showAll || userId === match.player2Id ? player2Goal : null,
+    };
+  }
+
+  // Framing for AI evaluation of a message sent from the given side
+  static describeForEvaluation(scenario: Scenario, slot: PlayerSlot): string {
+    const role = slot === 'player1' ? scenario.player1Role : scenario.player2Role;
+    const goal = slot === 'player1' ? scenario.player1Goal : scenario.player2Goal;
+    const opponentRole = slot === 'player1' ? scenario.player2Role : scenario.player1Role;
+    return `This is a competitive messaging game played around a scenario, "${scenario.title}": ${scenario.setup} ` +
+      `The message was sent by the ${role}, whose goal is: ${goal} Their opponent plays the ${opponentRole}.`;
+  }
+}
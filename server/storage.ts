@@ -4,6 +4,16 @@ import {
   messages,
   queue,
   judgeRatings,
+  aiEvaluations,
+  goldMessages,
+  calibrationItems,
+  appeals,
+  appealReviews,
+  judgeAssignments,
+  challenges,
+  readyChecks,
+  scenarios,
+  rematches,
   type User,
   type UpsertUser,
   type Match,
@@ -13,12 +23,62 @@ import {
   type InsertMatch,
   type InsertMessage,
   type InsertJudgeRating,
+  type AiEvaluation,
+  type InsertAiEvaluation,
+  type GoldMessage,
+  type InsertGoldMessage,
+  type CalibrationItem,
+  type InsertCalibrationItem,
+  type Scenario,
+  type InsertScenario,
+  type Appeal,
+  type InsertAppeal,
+  type AppealReview,
+  type AppealStatus,
+  type JudgeAssignment,
+  type ReadyCheck,
+  type Challenge,
+  type InsertChallenge,
+  type ChallengeStatus,
+  type Rematch,
+  type InsertRematch,
+  type RematchStatus,
+  type InsertJudgeAssignment,
   type InsertQueue,
   type MatchStatus,
   type MoveRating,
+  type MatchVerdict,
+  type MatchType,
+  type GameMode,
+  type MatchOfferType,
+  type MatchEndReason,
+  type RubricScores,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, desc, asc, sql } from "drizzle-orm";
+import { eq, ne, and, or, desc, asc, isNull, inArray, notInArray, sql, getTableColumns } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+export interface MatchOptions {
+  gameMode?: GameMode;
+  blindJudging?: boolean;
+  timeLimit?: number;
+  timeIncrement?: number;
+  rated?: boolean;
+  scenarioId?: string;
+  rematchOf?: string;
+}
+
+export type MatchOutcome = 'win' | 'loss' | 'draw';
+
+export type RematchSeat = 'player1' | 'player2' | 'judge1' | 'judge2';
+
+export interface QueuedMatchParticipants extends MatchOptions {
+  player1Id: string;
+  player2Id: string;
+  judge1Id: string;
+  judge2Id: string;
+  repeatPairing?: boolean;
+}
 
 // Interface for storage operations
 export interface IStorage {
@@ -26,38 +86,144 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   updateUserElo(userId: string, newElo: number): Promise<void>;
-  updateUserStats(userId: string, won: boolean): Promise<void>;
+  updateUserStats(userId: string, outcome: MatchOutcome): Promise<void>;
+  revertUserStats(userId: string, outcome: MatchOutcome): Promise<void>;
+  backfillUserDraws(): Promise<number>;
   getTopPlayers(limit: number): Promise<User[]>;
   getTopJudges(limit: number): Promise<User[]>;
   
   // Queue operations
-  joinQueue(userId: string, elo: number, matchType?: 'player' | 'judge'): Promise<Queue>;
+  joinQueue(userId: string, elo: number, matchType?: MatchType, gameMode?: GameMode): Promise<Queue>;
   leaveQueue(userId: string): Promise<void>;
-  findMatchInQueue(elo: number, eloRange: number): Promise<Queue | undefined>;
-  findJudgeInQueue(excludeUserId?: string): Promise<Queue | undefined>;
+  // Both include flex entries, which can fill either role
+  getPlayersInQueue(): Promise<Queue[]>;
+  getJudgesInQueue(excludeUserIds: string[]): Promise<Queue[]>;
   getUserInQueue(userId: string): Promise<Queue | undefined>;
+  touchQueueEntry(userId: string): Promise<void>;
+  evictStaleQueueEntries(lastSeenBefore: Date): Promise<string[]>;
   
   // Match operations
-  createMatch(player1Id: string, player2Id?: string, judge1Id?: string, judge2Id?: string): Promise<Match>;
+  createMatch(player1Id: string, player2Id?: string, judge1Id?: string, judge2Id?: string, options?: MatchOptions): Promise<Match>;
+  createMatchFromQueue(participants: QueuedMatchParticipants, assignments: Omit<InsertJudgeAssignment, 'matchId'>[], readyDeadline: Date): Promise<Match | undefined>;
   getMatch(matchId: string): Promise<Match | undefined>;
   getMatchWithPlayers(matchId: string): Promise<any>;
   updateMatchStatus(matchId: string, status: MatchStatus): Promise<void>;
   startMatch(matchId: string, player2Id: string, judge1Id?: string, judge2Id?: string): Promise<void>;
-  setMatchWinner(matchId: string, winnerId: string, player1Score: number, player2Score: number): Promise<void>;
-  switchTurn(matchId: string, nextUserId: string): Promise<void>;
+  setMatchWinner(matchId: string, winnerId: string | null, player1Score: number, player2Score: number): Promise<void>;
+  finishMatchOnTime(matchId: string, winnerId: string, player1Score: number, player2Score: number): Promise<boolean>;
+  forfeitMatch(matchId: string, winnerId: string | null, player1Score: number, player2Score: number): Promise<boolean>;
+  setMatchPendingVerdict(matchId: string, verdictDeadline: Date, endReason: MatchEndReason): Promise<boolean>;
+  makeMatchOffer(matchId: string, userId: string, offerType: MatchOfferType): Promise<boolean>;
+  clearMatchOffer(matchId: string, offeredBy: string, offerType: MatchOfferType): Promise<boolean>;
+  finishMatchAsDraw(matchId: string, offeredBy: string, player1Score: number, player2Score: number): Promise<boolean>;
+  recordJudgeVerdict(matchId: string, judgeSlot: 'judge1' | 'judge2', verdict: MatchVerdict): Promise<boolean>;
+  finalizeMatchVerdict(matchId: string, winnerId: string | null, player1Score: number, player2Score: number): Promise<boolean>;
+  updateMatchScores(matchId: string, player1Score: number, player2Score: number): Promise<void>;
+  getRecentPlayerMatches(userId: string, limit: number): Promise<Match[]>;
+  countMatchesCreatedSince(since: Date): Promise<number>;
+  getRepeatPairingCounts(since: Date): Promise<{ matches: number; repeatPairings: number }>;
+  getRecentJudgedMatches(judgeId: string, limit: number): Promise<Match[]>;
+  createJudgeAssignments(assignments: InsertJudgeAssignment[]): Promise<void>;
+  getMatchJudgeAssignments(matchId: string): Promise<JudgeAssignment[]>;
+  updateMatchWinner(matchId: string, winnerId: string | null): Promise<void>;
+  setMatchEloChanges(matchId: string, player1EloChange: number, player2EloChange: number): Promise<void>;
+  playTurn(message: InsertMessage, nextUserId: string, moverTimeRemaining: number): Promise<Message | undefined>;
   getUserActiveMatch(userId: string): Promise<Match | undefined>;
+  getActiveMatches(): Promise<Match[]>;
+  getOverdueVerdictMatches(now: Date): Promise<Match[]>;
+  getUserWaitingMatch(userId: string): Promise<Match | undefined>;
+  getMatchesAwaitingJudges(): Promise<Match[]>;
+  getExpiredWaitingMatches(createdBefore: Date): Promise<Match[]>;
+  cancelWaitingMatch(matchId: string): Promise<boolean>;
+  claimJudgesForMatch(matchId: string, judge1Id: string, judge2Id: string, assignments: Omit<InsertJudgeAssignment, 'matchId'>[]): Promise<Match | undefined>;
   getUserRecentMatches(userId: string, limit: number): Promise<any[]>;
+
+  // Ready check operations
+  getUserReadyCheck(userId: string): Promise<{ readyCheck: ReadyCheck; match: Match } | undefined>;
+  isUserBusy(userId: string): Promise<boolean>;
+  getMatchReadyChecks(matchId: string): Promise<ReadyCheck[]>;
+  markReady(matchId: string, userId: string): Promise<boolean>;
+  startReadyMatch(matchId: string): Promise<Match | undefined>;
+  cancelReadyCheck(matchId: string, penalizedUserIds: string[], cooldownUntil: Date): Promise<boolean>;
+  getExpiredReadyChecks(now: Date): Promise<Match[]>;
   
   // Message operations
   createMessage(message: InsertMessage): Promise<Message>;
+  getMessage(messageId: string): Promise<Message | undefined>;
   updateMessageRating(messageId: string, rating: MoveRating, explanation: string): Promise<void>;
   getMatchMessages(matchId: string): Promise<any[]>;
+  countUserMessages(matchId: string, userId: string): Promise<number>;
   
   // Judge rating operations
-  createJudgeRating(judgeRating: InsertJudgeRating): Promise<JudgeRating>;
+  createJudgeRating(judgeRating: InsertJudgeRating): Promise<JudgeRating | undefined>;
   getMessageJudgeRatings(messageId: string): Promise<JudgeRating[]>;
+  getJudgeRatingsForMatch(matchId: string, judgeId: string): Promise<JudgeRating[]>;
+  getMatchJudgeRatings(matchId: string): Promise<JudgeRating[]>;
   updateJudgeElo(userId: string, newJudgeElo: number): Promise<void>;
-  updateJudgeStats(userId: string, agreed: boolean): Promise<void>;
+  updateJudgeStats(userId: string, agreement: number): Promise<void>;
+  getJudgeRatingPairs(judgeId: string, limit: number): Promise<Array<{ rating: MoveRating; referenceRating: MoveRating }>>;
+  getPlayerRubricAverages(userId: string): Promise<{ [K in keyof RubricScores]: number | null } & { ratedMessages: number }>;
+
+  // AI evaluation operations
+  createAiEvaluation(evaluation: InsertAiEvaluation): Promise<AiEvaluation>;
+  getMessageAiEvaluation(messageId: string): Promise<AiEvaluation | undefined>;
+  getMatchAiEvaluations(matchId: string): Promise<AiEvaluation[]>;
+
+  // Calibration operations
+  createGoldMessage(goldMessage: InsertGoldMessage): Promise<GoldMessage | undefined>;
+  getGoldMessage(goldMessageId: string): Promise<GoldMessage | undefined>;
+  pickGoldMessageForJudge(judgeId: string, scenarioId: string | null): Promise<(GoldMessage & { sourceSlot: 'player1' | 'player2' | null }) | undefined>;
+  createCalibrationItem(item: InsertCalibrationItem): Promise<CalibrationItem | undefined>;
+  getCalibrationItem(itemId: string): Promise<CalibrationItem | undefined>;
+  revealCalibrationItems(matchId: string, judgeId: string, messageCount: number, attributedUserId: string): Promise<void>;
+  getShownCalibrationItems(matchId: string, judgeId: string): Promise<Array<CalibrationItem & { content: string }>>;
+  recordCalibrationRating(itemId: string, rating: MoveRating): Promise<boolean>;
+  updateCalibrationStats(userId: string, agreement: number): Promise<void>;
+
+  // Scenario operations
+  createScenario(scenario: InsertScenario): Promise<Scenario>;
+  getScenario(scenarioId: string): Promise<Scenario | undefined>;
+  countScenarios(): Promise<number>;
+  pickScenarioForPlayers(playerIds: string[]): Promise<Scenario | undefined>;
+
+  // Challenge operations
+  createChallenge(challenge: InsertChallenge): Promise<Challenge>;
+  getChallenge(challengeId: string): Promise<Challenge | undefined>;
+  getChallengeByInviteCode(inviteCode: string): Promise<Challenge | undefined>;
+  getUserChallenges(userId: string): Promise<any[]>;
+  acceptChallenge(challengeId: string, userId: string): Promise<Challenge | undefined>;
+  closeChallenge(challengeId: string, status: ChallengeStatus): Promise<boolean>;
+  setChallengeMatch(challengeId: string, matchId: string): Promise<void>;
+  acceptChallengeJudging(challengeId: string, judgeId: string, slot: 'judge1' | 'judge2'): Promise<Challenge | undefined>;
+  releaseChallengeJudges(challengeId: string, declinedBy?: string): Promise<boolean>;
+  releaseUnansweredChallengeJudges(acceptedBefore: Date): Promise<void>;
+  assignMatchJudges(matchId: string, judge1Id: string, judge2Id: string): Promise<Match | undefined>;
+
+  // Rematch operations
+  createRematch(rematch: InsertRematch): Promise<Rematch | undefined>;
+  getRematch(rematchId: string): Promise<Rematch | undefined>;
+  getMatchRematch(matchId: string): Promise<Rematch | undefined>;
+  getPendingRematches(): Promise<Rematch[]>;
+  recordRematchAnswer(rematchId: string, seat: RematchSeat, accept: boolean): Promise<boolean>;
+  closeRematch(rematchId: string, status: RematchStatus): Promise<boolean>;
+  setRematchMatch(rematchId: string, matchId: string): Promise<void>;
+
+  // Appeal operations
+  createAppeal(appeal: InsertAppeal): Promise<Appeal>;
+  getAppeal(appealId: string): Promise<Appeal | undefined>;
+  findPlayerAppeal(matchId: string, appellantId: string, messageId: string | null): Promise<Appeal | undefined>;
+  getMatchAppeals(matchId: string): Promise<Appeal[]>;
+  findAppealPanel(excludeUserIds: string[], minJudgeElo: number, limit: number): Promise<User[]>;
+  assignAppealReviewers(appealId: string, reviewerIds: string[]): Promise<void>;
+  getAppealReviews(appealId: string): Promise<AppealReview[]>;
+  recordAppealReview(appealId: string, reviewerId: string, review: { rating?: MoveRating; verdict?: MatchVerdict }): Promise<boolean>;
+  getPendingAppealReviews(reviewerId: string): Promise<Array<{ review: AppealReview; appeal: Appeal }>>;
+  resolveAppeal(appealId: string, status: AppealStatus, result: { finalRating?: MoveRating; finalVerdict?: MatchVerdict }): Promise<boolean>;
+  getStaleAppealReviews(assignedBefore: Date): Promise<Array<{ review: AppealReview; appeal: Appeal }>>;
+  replaceAppealReviewer(reviewId: string, appealId: string, reviewerId: string): Promise<boolean>;
+  getUnresolvedAppeals(createdBefore: Date): Promise<Appeal[]>;
+  getMatchOverturnedRatings(matchId: string): Promise<Array<{ messageId: string; finalRating: MoveRating }>>;
+  recordJudgeOverturn(userId: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -93,18 +259,53 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, userId));
   }
 
-  async updateUserStats(userId: string, won: boolean): Promise<void> {
+  async updateUserStats(userId: string, outcome: MatchOutcome): Promise<void> {
     await db
       .update(users)
       .set({
         totalMatches: sql`total_matches + 1`,
-        wins: won ? sql`wins + 1` : sql`wins`,
-        losses: won ? sql`losses` : sql`losses + 1`,
+        wins: outcome === 'win' ? sql`wins + 1` : sql`wins`,
+        losses: outcome === 'loss' ? sql`losses + 1` : sql`losses`,
+        draws: outcome === 'draw' ? sql`draws + 1` : sql`draws`,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
+  async revertUserStats(userId: string, outcome: MatchOutcome): Promise<void> {
+    await db
+      .update(users)
+      .set({
+        totalMatches: sql`GREATEST(total_matches - 1, 0)`,
+        wins: outcome === 'win' ? sql`GREATEST(wins - 1, 0)` : sql`wins`,
+        losses: outcome === 'loss' ? sql`GREATEST(losses - 1, 0)` : sql`losses`,
+        draws: outcome === 'draw' ? sql`GREATEST(draws - 1, 0)` : sql`draws`,
         updatedAt: new Date(),
       })
       .where(eq(users.id, userId));
   }
 
+  // Rated matches that ended without a winner used to be recorded as a loss for both
+  // players. Moves those from losses to draws for users with no draws recorded yet, so
+  // running it again changes nothing.
+  async backfillUserDraws(): Promise<number> {
+    const drawnMatches = sql`(
+      SELECT COUNT(*)::int FROM matches m
+      WHERE m.status = 'completed' AND m.winner_id IS NULL AND m.rated AND m.player2_id IS NOT NULL
+        AND ${users.id} IN (m.player1_id, m.player2_id)
+    )`;
+    const updated = await db
+      .update(users)
+      .set({
+        draws: drawnMatches,
+        losses: sql`GREATEST(${users.losses} - ${drawnMatches}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(users.draws, 0), sql`${drawnMatches} > 0`))
+      .returning({ id: users.id });
+    return updated.length;
+  }
+
   async getTopPlayers(limit: number): Promise<User[]> {
     return await db
       .select()
@@ -122,13 +323,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Queue operations
-  async joinQueue(userId: string, elo: number, matchType: 'player' | 'judge' = 'player'): Promise<Queue> {
+  async joinQueue(userId: string, elo: number, matchType: MatchType = 'player', gameMode: GameMode = 'standard'): Promise<Queue> {
     const [queueEntry] = await db
       .insert(queue)
-      .values({ userId, elo, matchType })
+      .values({ userId, elo, matchType, gameMode })
       .onConflictDoUpdate({
         target: queue.userId,
-        set: { elo, matchType, joinedAt: new Date() },
+        set: { elo, matchType, gameMode, joinedAt: new Date(), lastSeenAt: new Date() },
       })
       .returning();
     return queueEntry;
@@ -138,35 +339,25 @@ export class DatabaseStorage implements IStorage {
     await db.delete(queue).where(eq(queue.userId, userId));
   }
 
-  async findMatchInQueue(elo: number, eloRange: number): Promise<Queue | undefined> {
-    const [match] = await db
+  async getPlayersInQueue(): Promise<Queue[]> {
+    return await db
       .select()
       .from(queue)
-      .where(
-        and(
-          eq(queue.matchType, 'player'),
-          sql`elo BETWEEN ${elo - eloRange} AND ${elo + eloRange}`,
-          sql`joined_at < NOW() - INTERVAL '1 second'`
-        )
-      )
-      .orderBy(asc(queue.joinedAt))
-      .limit(1);
-    return match;
+      .where(inArray(queue.matchType, ['player', 'flex']))
+      .orderBy(asc(queue.joinedAt));
   }
 
-  async findJudgeInQueue(excludeUserId?: string): Promise<Queue | undefined> {
-    const whereConditions = [eq(queue.matchType, 'judge')];
-    if (excludeUserId) {
-      whereConditions.push(sql`user_id != ${excludeUserId}`);
-    }
-    
-    const [judge] = await db
+  async getJudgesInQueue(excludeUserIds: string[]): Promise<Queue[]> {
+    return await db
       .select()
       .from(queue)
-      .where(and(...whereConditions))
-      .orderBy(asc(queue.joinedAt))
-      .limit(1);
-    return judge;
+      .where(
+        and(
+          inArray(queue.matchType, ['judge', 'flex']),
+          excludeUserIds.length > 0 ? notInArray(queue.userId, excludeUserIds) : undefined
+        )
+      )
+      .orderBy(asc(queue.joinedAt));
   }
 
   async getUserInQueue(userId: string): Promise<Queue | undefined> {
@@ -177,8 +368,32 @@ export class DatabaseStorage implements IStorage {
     return queueEntry;
   }
 
+  async touchQueueEntry(userId: string): Promise<void> {
+    await db
+      .update(queue)
+      .set({ lastSeenAt: new Date() })
+      .where(eq(queue.userId, userId));
+  }
+
+  // Removes entries whose client stopped polling and counts an abandon against each user
+  async evictStaleQueueEntries(lastSeenBefore: Date): Promise<string[]> {
+    const evicted = await db
+      .delete(queue)
+      .where(sql`${queue.lastSeenAt} < ${lastSeenBefore}`)
+      .returning({ userId: queue.userId });
+
+    const userIds = evicted.map(entry => entry.userId);
+    if (userIds.length > 0) {
+      await db
+        .update(users)
+        .set({ queueAbandons: sql`queue_abandons + 1`, updatedAt: new Date() })
+        .where(inArray(users.id, userIds));
+    }
+    return userIds;
+  }
+
   // Match operations
-  async createMatch(player1Id: string, player2Id?: string, judge1Id?: string, judge2Id?: string): Promise<Match> {
+  async createMatch(player1Id: string, player2Id?: string, judge1Id?: string, judge2Id?: string, options: MatchOptions = {}): Promise<Match> {
     const [match] = await db
       .insert(matches)
       .values({
@@ -186,6 +401,7 @@ export class DatabaseStorage implements IStorage {
         player2Id,
         judge1Id,
         judge2Id,
+        ...options,
         status: (player2Id && judge1Id && judge2Id) ? 'active' : 'waiting',
         currentTurn: player1Id,
         startedAt: (player2Id && judge1Id && judge2Id) ? new Date() : undefined,
@@ -194,6 +410,84 @@ export class DatabaseStorage implements IStorage {
     return match;
   }
 
+  // Claims all four queue rows and creates the match in one transaction. Rows another
+  // matchmaker already holds are skipped rather than waited on, so if any participant
+  // has been claimed or has left the queue nothing is created and undefined is returned.
+  // The match waits in its ready check, holding each claimed queue entry so it can be
+  // restored if the match falls through.
+  async createMatchFromQueue(participants: QueuedMatchParticipants, assignments: Omit<InsertJudgeAssignment, 'matchId'>[], readyDeadline: Date): Promise<Match | undefined> {
+    const { player1Id, player2Id, judge1Id, judge2Id, ...options } = participants;
+
+    return await db.transaction(async (tx) => {
+      const claimed = await tx
+        .select()
+        .from(queue)
+        .where(
+          or(
+            and(inArray(queue.userId, [player1Id, player2Id]), inArray(queue.matchType, ['player', 'flex'])),
+            and(inArray(queue.userId, [judge1Id, judge2Id]), inArray(queue.matchType, ['judge', 'flex']))
+          )
+        )
+        .for('update', { skipLocked: true });
+      if (claimed.length < 4) return undefined;
+
+      await tx.delete(queue).where(inArray(queue.id, claimed.map(row => row.id)));
+
+      const [match] = await tx
+        .insert(matches)
+        .values({
+          player1Id,
+          player2Id,
+          judge1Id,
+          judge2Id,
+          ...options,
+          status: 'ready_check',
+          currentTurn: player1Id,
+          readyDeadline,
+        })
+        .returning();
+
+      await tx.insert(readyChecks).values(claimed.map(entry => ({
+        matchId: match.id,
+        userId: entry.userId,
+        matchType: entry.matchType,
+        gameMode: entry.gameMode,
+        elo: entry.elo,
+        joinedAt: entry.joinedAt,
+      })));
+      if (assignments.length > 0) {
+        await tx.insert(judgeAssignments).values(assignments.map(a => ({ ...a, matchId: match.id })));
+      }
+      return match;
+    });
+  }
+
+  // Fills a challenge match that is waiting on queue judges, claiming both judges'
+  // queue rows in the same transaction that starts the match
+  async claimJudgesForMatch(matchId: string, judge1Id: string, judge2Id: string, assignments: Omit<InsertJudgeAssignment, 'matchId'>[]): Promise<Match | undefined> {
+    return await db.transaction(async (tx) => {
+      const claimed = await tx
+        .select({ id: queue.id })
+        .from(queue)
+        .where(and(inArray(queue.userId, [judge1Id, judge2Id]), inArray(queue.matchType, ['judge', 'flex'])))
+        .for('update', { skipLocked: true });
+      if (claimed.length < 2) return undefined;
+
+      const [match] = await tx
+        .update(matches)
+        .set({ judge1Id, judge2Id, status: 'active', startedAt: new Date() })
+        .where(and(eq(matches.id, matchId), eq(matches.status, 'waiting'), isNull(matches.judge1Id)))
+        .returning();
+      if (!match) return undefined;
+
+      await tx.delete(queue).where(inArray(queue.id, claimed.map(row => row.id)));
+      if (assignments.length > 0) {
+        await tx.insert(judgeAssignments).values(assignments.map(a => ({ ...a, matchId })));
+      }
+      return match;
+    });
+  }
+
   async getMatch(matchId: string): Promise<Match | undefined> {
     const [match] = await db
       .select()
@@ -207,13 +501,23 @@ export class DatabaseStorage implements IStorage {
       .select({
         id: matches.id,
         status: matches.status,
+        gameMode: matches.gameMode,
         currentTurn: matches.currentTurn,
         winnerId: matches.winnerId,
         player1Score: matches.player1Score,
         player2Score: matches.player2Score,
         startedAt: matches.startedAt,
         endedAt: matches.endedAt,
+        endReason: matches.endReason,
         timeLimit: matches.timeLimit,
+        timeIncrement: matches.timeIncrement,
+        judge1Verdict: matches.judge1Verdict,
+        judge2Verdict: matches.judge2Verdict,
+        verdictDeadline: matches.verdictDeadline,
+        offerType: matches.offerType,
+        offeredBy: matches.offeredBy,
+        player1EloChange: matches.player1EloChange,
+        player2EloChange: matches.player2EloChange,
         player1: {
           id: users.id,
           email: users.email,
@@ -279,7 +583,7 @@ export class DatabaseStorage implements IStorage {
       .where(eq(matches.id, matchId));
   }
 
-  async setMatchWinner(matchId: string, winnerId: string, player1Score: number, player2Score: number): Promise<void> {
+  async setMatchWinner(matchId: string, winnerId: string | null, player1Score: number, player2Score: number): Promise<void> {
     await db
       .update(matches)
       .set({
@@ -292,31 +596,358 @@ export class DatabaseStorage implements IStorage {
       .where(eq(matches.id, matchId));
   }
 
-  async switchTurn(matchId: string, nextUserId: string): Promise<void> {
+  // Guarded like finishMatchOnTime, so a repeated forfeit or one racing a flag fall
+  // only ends the match once
+  async forfeitMatch(matchId: string, winnerId: string | null, player1Score: number, player2Score: number): Promise<boolean> {
+    const updated = await db
+      .update(matches)
+      .set({
+        winnerId,
+        player1Score,
+        player2Score,
+        status: 'forfeit',
+        endedAt: new Date(),
+        endReason: 'forfeit',
+      })
+      .where(and(eq(matches.id, matchId), eq(matches.status, 'active')))
+      .returning({ id: matches.id });
+    return updated.length > 0;
+  }
+
+  // A flag fall decides the match outright; guarded so it is only applied once
+  async finishMatchOnTime(matchId: string, winnerId: string, player1Score: number, player2Score: number): Promise<boolean> {
+    const updated = await db
+      .update(matches)
+      .set({
+        winnerId,
+        player1Score,
+        player2Score,
+        status: 'completed',
+        endedAt: new Date(),
+        endReason: 'time',
+      })
+      .where(and(eq(matches.id, matchId), eq(matches.status, 'active')))
+      .returning({ id: matches.id });
+    return updated.length > 0;
+  }
+
+  async setMatchPendingVerdict(matchId: string, verdictDeadline: Date, endReason: MatchEndReason): Promise<boolean> {
+    const updated = await db
+      .update(matches)
+      .set({
+        status: 'pending_verdict',
+        endedAt: new Date(),
+        endReason,
+        verdictDeadline,
+      })
+      .where(and(eq(matches.id, matchId), eq(matches.status, 'active')))
+      .returning({ id: matches.id });
+    return updated.length > 0;
+  }
+
+  // Only the player to move can make an offer, and only one offer is open at a time
+  async makeMatchOffer(matchId: string, userId: string, offerType: MatchOfferType): Promise<boolean> {
+    const updated = await db
+      .update(matches)
+      .set({ offerType, offeredBy: userId })
+      .where(
+        and(
+          eq(matches.id, matchId),
+          eq(matches.status, 'active'),
+          eq(matches.currentTurn, userId),
+          isNull(matches.offeredBy)
+        )
+      )
+      .returning({ id: matches.id });
+    return updated.length > 0;
+  }
+
+  // Fails if the offer has already been answered or has lapsed
+  async clearMatchOffer(matchId: string, offeredBy: string, offerType: MatchOfferType): Promise<boolean> {
+    const updated = await db
+      .update(matches)
+      .set({ offerType: null, offeredBy: null })
+      .where(
+        and(
+          eq(matches.id, matchId),
+          eq(matches.offeredBy, offeredBy),
+          eq(matches.offerType, offerType)
+        )
+      )
+      .returning({ id: matches.id });
+    return updated.length > 0;
+  }
+
+  // Accepting a draw offer ends the match with no winner, as long as the offer still stands
+  async finishMatchAsDraw(matchId: string, offeredBy: string, player1Score: number, player2Score: number): Promise<boolean> {
+    const updated = await db
+      .update(matches)
+      .set({
+        winnerId: null,
+        player1Score,
+        player2Score,
+        status: 'completed',
+        endedAt: new Date(),
+        endReason: 'agreed_draw',
+        offerType: null,
+        offeredBy: null,
+      })
+      .where(
+        and(
+          eq(matches.id, matchId),
+          eq(matches.status, 'active'),
+          eq(matches.offeredBy, offeredBy),
+          eq(matches.offerType, 'draw')
+        )
+      )
+      .returning({ id: matches.id });
+    return updated.length > 0;
+  }
+
+  async recordJudgeVerdict(matchId: string, judgeSlot: 'judge1' | 'judge2', verdict: MatchVerdict): Promise<boolean> {
+    // A judge's vote is final - only fill the slot while it is still empty
+    const verdictColumn = judgeSlot === 'judge1' ? matches.judge1Verdict : matches.judge2Verdict;
+    const updated = await db
+      .update(matches)
+      .set(judgeSlot === 'judge1' ? { judge1Verdict: verdict } : { judge2Verdict: verdict })
+      .where(
+        and(
+          eq(matches.id, matchId),
+          eq(matches.status, 'pending_verdict'),
+          isNull(verdictColumn)
+        )
+      )
+      .returning({ id: matches.id });
+    return updated.length > 0;
+  }
+
+  async finalizeMatchVerdict(matchId: string, winnerId: string | null, player1Score: number, player2Score: number): Promise<boolean> {
+    // Guarded by status so concurrent finalizers only apply the result once
+    const updated = await db
+      .update(matches)
+      .set({
+        winnerId,
+        player1Score,
+        player2Score,
+        status: 'completed',
+      })
+      .where(and(eq(matches.id, matchId), eq(matches.status, 'pending_verdict')))
+      .returning({ id: matches.id });
+    return updated.length > 0;
+  }
+
+  async updateMatchScores(matchId: string, player1Score: number, player2Score: number): Promise<void> {
+    await db
+      .update(matches)
+      .set({ player1Score, player2Score })
+      .where(eq(matches.id, matchId));
+  }
+
+  async getRecentPlayerMatches(userId: string, limit: number): Promise<Match[]> {
+    return await db
+      .select()
+      .from(matches)
+      .where(or(eq(matches.player1Id, userId), eq(matches.player2Id, userId)))
+      .orderBy(desc(matches.createdAt))
+      .limit(limit);
+  }
+
+  async countMatchesCreatedSince(since: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(matches)
+      .where(sql`${matches.createdAt} >= ${since}`);
+    return result?.count ?? 0;
+  }
+
+  // Queue-made matches only; challenges are rematches by choice
+  async getRepeatPairingCounts(since: Date): Promise<{ matches: number; repeatPairings: number }> {
+    const [result] = await db
+      .select({
+        matches: sql<number>`count(*)::int`,
+        repeatPairings: sql<number>`count(*) FILTER (WHERE ${matches.repeatPairing})::int`,
+      })
+      .from(matches)
+      .where(
+        and(
+          sql`${matches.createdAt} >= ${since}`,
+          sql`NOT EXISTS (SELECT 1 FROM ${challenges} WHERE ${challenges.matchId} = ${matches.id})`
+        )
+      );
+    return { matches: result?.matches ?? 0, repeatPairings: result?.repeatPairings ?? 0 };
+  }
+
+  async getRecentJudgedMatches(judgeId: string, limit: number): Promise<Match[]> {
+    return await db
+      .select()
+      .from(matches)
+      .where(or(eq(matches.judge1Id, judgeId), eq(matches.judge2Id, judgeId)))
+      .orderBy(desc(matches.createdAt))
+      .limit(limit);
+  }
+
+  async createJudgeAssignments(assignments: InsertJudgeAssignment[]): Promise<void> {
+    if (assignments.length === 0) return;
+    await db.insert(judgeAssignments).values(assignments);
+  }
+
+  async getMatchJudgeAssignments(matchId: string): Promise<JudgeAssignment[]> {
+    return await db
+      .select()
+      .from(judgeAssignments)
+      .where(eq(judgeAssignments.matchId, matchId))
+      .orderBy(asc(judgeAssignments.slot));
+  }
+
+  async updateMatchWinner(matchId: string, winnerId: string | null): Promise<void> {
+    await db
+      .update(matches)
+      .set({ winnerId })
+      .where(eq(matches.id, matchId));
+  }
+
+  async setMatchEloChanges(matchId: string, player1EloChange: number, player2EloChange: number): Promise<void> {
     await db
       .update(matches)
-      .set({ currentTurn: nextUserId })
+      .set({ player1EloChange, player2EloChange })
       .where(eq(matches.id, matchId));
   }
 
+  // Records the mover's message, stops their clock at `moverTimeRemaining` and starts the
+  // opponent's, all in one transaction. Guarded on the turn so a double submit stores one
+  // move; returns undefined for the caller that lost the turn.
+  async playTurn(message: InsertMessage, nextUserId: string, moverTimeRemaining: number): Promise<Message | undefined> {
+    const moverId = message.userId;
+    return await db.transaction(async (tx) => {
+      const switched = await tx
+        .update(matches)
+        .set({
+          currentTurn: nextUserId,
+          turnStartedAt: new Date(),
+          player1TimeRemaining: sql`CASE WHEN ${matches.player1Id} = ${moverId} THEN ${moverTimeRemaining} ELSE ${matches.player1TimeRemaining} END`,
+          player2TimeRemaining: sql`CASE WHEN ${matches.player2Id} = ${moverId} THEN ${moverTimeRemaining} ELSE ${matches.player2TimeRemaining} END`,
+          // An opponent's offer lapses once the mover plays on instead of answering it
+          offerType: sql`CASE WHEN ${matches.offeredBy} = ${moverId} THEN ${matches.offerType} ELSE NULL END`,
+          offeredBy: sql`CASE WHEN ${matches.offeredBy} = ${moverId} THEN ${matches.offeredBy} ELSE NULL END`,
+        })
+        .where(and(eq(matches.id, message.matchId), eq(matches.currentTurn, moverId), eq(matches.status, 'active')))
+        .returning({ id: matches.id });
+      if (switched.length === 0) return undefined;
+
+      const [newMessage] = await tx
+        .insert(messages)
+        .values(message)
+        .returning();
+      return newMessage;
+    });
+  }
+
+  // Includes a match awaiting a verdict the user still owes as a judge, so they can get
+  // back to the verdict panel. A live match comes first (enum order puts 'active' first).
   async getUserActiveMatch(userId: string): Promise<Match | undefined> {
     const [match] = await db
       .select()
       .from(matches)
       .where(
-        and(
-          or(
-            eq(matches.player1Id, userId), 
-            eq(matches.player2Id, userId),
-            eq(matches.judge1Id, userId),
-            eq(matches.judge2Id, userId)
+        or(
+          and(
+            or(
+              eq(matches.player1Id, userId), 
+              eq(matches.player2Id, userId),
+              eq(matches.judge1Id, userId),
+              eq(matches.judge2Id, userId)
+            ),
+            eq(matches.status, 'active')
           ),
-          eq(matches.status, 'active')
+          and(
+            eq(matches.status, 'pending_verdict'),
+            or(
+              and(eq(matches.judge1Id, userId), isNull(matches.judge1Verdict)),
+              and(eq(matches.judge2Id, userId), isNull(matches.judge2Verdict))
+            )
+          )
+        )
+      )
+      .orderBy(asc(matches.status))
+      .limit(1);
+    return match;
+  }
+
+  async getActiveMatches(): Promise<Match[]> {
+    return await db
+      .select()
+      .from(matches)
+      .where(eq(matches.status, 'active'));
+  }
+
+  async getOverdueVerdictMatches(now: Date): Promise<Match[]> {
+    return await db
+      .select()
+      .from(matches)
+      .where(and(eq(matches.status, 'pending_verdict'), sql`${matches.verdictDeadline} < ${now}`));
+  }
+
+  async getUserWaitingMatch(userId: string): Promise<Match | undefined> {
+    const [match] = await db
+      .select()
+      .from(matches)
+      .where(
+        and(
+          or(eq(matches.player1Id, userId), eq(matches.player2Id, userId)),
+          eq(matches.status, 'waiting')
         )
       );
     return match;
   }
 
+  async getExpiredWaitingMatches(createdBefore: Date): Promise<Match[]> {
+    return await db
+      .select()
+      .from(matches)
+      .where(and(eq(matches.status, 'waiting'), sql`${matches.createdAt} < ${createdBefore}`));
+  }
+
+  // Calls off a match that never got its judges, like a failed ready check. The challenge
+  // or rematch that created it is closed so it can't point players back at it.
+  async cancelWaitingMatch(matchId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [match] = await tx
+        .select({ id: matches.id })
+        .from(matches)
+        .where(and(eq(matches.id, matchId), eq(matches.status, 'waiting')))
+        .for('update');
+      if (!match) return false;
+
+      await tx
+        .update(challenges)
+        .set({ status: 'cancelled', matchId: null })
+        .where(eq(challenges.matchId, matchId));
+      await tx
+        .update(rematches)
+        .set({ status: 'expired', newMatchId: null })
+        .where(eq(rematches.newMatchId, matchId));
+      await tx.delete(judgeAssignments).where(eq(judgeAssignments.matchId, matchId));
+      await tx.delete(matches).where(eq(matches.id, matchId));
+      return true;
+    });
+  }
+
+  async getMatchesAwaitingJudges(): Promise<Match[]> {
+    return await db
+      .select()
+      .from(matches)
+      .where(
+        and(
+          eq(matches.status, 'waiting'),
+          sql`${matches.player2Id} IS NOT NULL`,
+          isNull(matches.judge1Id),
+          // Challenge matches with named judges wait for those judges to accept
+          sql`NOT EXISTS (SELECT 1 FROM challenges c WHERE c.match_id = ${matches.id} AND c.judge1_id IS NOT NULL)`
+        )
+      )
+      .orderBy(asc(matches.createdAt));
+  }
+
   async getUserRecentMatches(userId: string, limit: number): Promise<any[]> {
     return await db
       .select({
@@ -333,6 +964,8 @@ export class DatabaseStorage implements IStorage {
           elo: sql`CASE WHEN matches.player1_id = ${userId} THEN p2.elo ELSE p1.elo END`,
         },
         isWinner: sql`matches.winner_id = ${userId}`,
+        isDraw: sql`matches.winner_id IS NULL`,
+        eloChange: sql`CASE WHEN matches.player1_id = ${userId} THEN matches.player1_elo_change ELSE matches.player2_elo_change END`,
         userWasPlayer1: sql`matches.player1_id = ${userId}`,
       })
       .from(matches)
@@ -348,6 +981,115 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  // Ready check operations
+  async getUserReadyCheck(userId: string): Promise<{ readyCheck: ReadyCheck; match: Match } | undefined> {
+    const [result] = await db
+      .select({ readyCheck: readyChecks, match: matches })
+      .from(readyChecks)
+      .innerJoin(matches, eq(readyChecks.matchId, matches.id))
+      .where(and(eq(readyChecks.userId, userId), eq(matches.status, 'ready_check')));
+    return result;
+  }
+
+  // In a live match, one waiting for judges or a ready check: anywhere a user can't be placed again
+  async isUserBusy(userId: string): Promise<boolean> {
+    return !!(
+      await this.getUserActiveMatch(userId) ||
+      await this.getUserWaitingMatch(userId) ||
+      await this.getUserReadyCheck(userId)
+    );
+  }
+
+  async getMatchReadyChecks(matchId: string): Promise<ReadyCheck[]> {
+    return await db
+      .select()
+      .from(readyChecks)
+      .where(eq(readyChecks.matchId, matchId));
+  }
+
+  // Guarded so a late accept can't land after the deadline or once the check is settled
+  async markReady(matchId: string, userId: string): Promise<boolean> {
+    const updated = await db
+      .update(readyChecks)
+      .set({ readyAt: new Date() })
+      .where(
+        and(
+          eq(readyChecks.matchId, matchId),
+          eq(readyChecks.userId, userId),
+          isNull(readyChecks.readyAt),
+          sql`EXISTS (SELECT 1 FROM ${matches} WHERE ${matches.id} = ${matchId} AND ${matches.status} = 'ready_check' AND ${matches.readyDeadline} > NOW())`
+        )
+      )
+      .returning({ id: readyChecks.id });
+    return updated.length > 0;
+  }
+
+  // Starts the clock once everyone has accepted; only one caller gets the match back
+  async startReadyMatch(matchId: string): Promise<Match | undefined> {
+    const [match] = await db
+      .update(matches)
+      .set({ status: 'active', startedAt: new Date(), readyDeadline: null })
+      .where(
+        and(
+          eq(matches.id, matchId),
+          eq(matches.status, 'ready_check'),
+          sql`NOT EXISTS (SELECT 1 FROM ${readyChecks} WHERE ${readyChecks.matchId} = ${matchId} AND ${readyChecks.readyAt} IS NULL)`
+        )
+      )
+      .returning();
+    return match;
+  }
+
+  // Calls off a match that failed its ready check. Everyone not penalized goes back
+  // into the queue with their original place in line; the penalized get a cooldown.
+  async cancelReadyCheck(matchId: string, penalizedUserIds: string[], cooldownUntil: Date): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [match] = await tx
+        .select({ id: matches.id })
+        .from(matches)
+        .where(and(eq(matches.id, matchId), eq(matches.status, 'ready_check')))
+        .for('update');
+      if (!match) return false;
+
+      const participants = await tx
+        .select()
+        .from(readyChecks)
+        .where(eq(readyChecks.matchId, matchId));
+
+      await tx.delete(readyChecks).where(eq(readyChecks.matchId, matchId));
+      await tx.delete(judgeAssignments).where(eq(judgeAssignments.matchId, matchId));
+      await tx.delete(matches).where(eq(matches.id, matchId));
+
+      const requeued = participants.filter(p => !penalizedUserIds.includes(p.userId));
+      if (requeued.length > 0) {
+        await tx
+          .insert(queue)
+          .values(requeued.map(p => ({
+            userId: p.userId,
+            elo: p.elo,
+            matchType: p.matchType,
+            gameMode: p.gameMode,
+            joinedAt: p.joinedAt,
+          })))
+          .onConflictDoNothing({ target: queue.userId });
+      }
+      if (penalizedUserIds.length > 0) {
+        await tx
+          .update(users)
+          .set({ queueCooldownUntil: cooldownUntil, updatedAt: new Date() })
+          .where(inArray(users.id, penalizedUserIds));
+      }
+      return true;
+    });
+  }
+
+  async getExpiredReadyChecks(now: Date): Promise<Match[]> {
+    return await db
+      .select()
+      .from(matches)
+      .where(and(eq(matches.status, 'ready_check'), sql`${matches.readyDeadline} <= ${now}`));
+  }
+
   // Message operations
   async createMessage(message: InsertMessage): Promise<Message> {
     const [newMessage] = await db
@@ -357,11 +1099,27 @@ export class DatabaseStorage implements IStorage {
     return newMessage;
   }
 
+  async getMessage(messageId: string): Promise<Message | undefined> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.id, messageId));
+    return message;
+  }
+
   async updateMessageRating(messageId: string, rating: MoveRating, explanation: string): Promise<void> {
     // This method is deprecated - use createJudgeRating instead
     console.warn('updateMessageRating is deprecated - use createJudgeRating instead');
   }
 
+  async countUserMessages(matchId: string, userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(messages)
+      .where(and(eq(messages.matchId, matchId), eq(messages.userId, userId)));
+    return result?.count ?? 0;
+  }
+
   async getMatchMessages(matchId: string): Promise<any[]> {
     return await db
       .select({
@@ -382,10 +1140,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Judge rating operations
-  async createJudgeRating(judgeRating: InsertJudgeRating): Promise<JudgeRating> {
+  async createJudgeRating(judgeRating: InsertJudgeRating): Promise<JudgeRating | undefined> {
+    // Returns undefined if this judge has already rated the message
     const [newJudgeRating] = await db
       .insert(judgeRatings)
       .values(judgeRating)
+      .onConflictDoNothing({ target: [judgeRatings.messageId, judgeRatings.judgeId] })
       .returning();
     return newJudgeRating;
   }
@@ -395,7 +1155,29 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(judgeRatings)
       .where(eq(judgeRatings.messageId, messageId))
-      .orderBy(asc(judgeRatings.ratedAt));
+      .orderBy(asc(judgeRatings.ratedAt), asc(judgeRatings.id));
+  }
+
+  async getJudgeRatingsForMatch(matchId: string, judgeId: string): Promise<JudgeRating[]> {
+    return await db
+      .select(getTableColumns(judgeRatings))
+      .from(judgeRatings)
+      .innerJoin(messages, eq(judgeRatings.messageId, messages.id))
+      .where(
+        and(
+          eq(messages.matchId, matchId),
+          eq(judgeRatings.judgeId, judgeId)
+        )
+      );
+  }
+
+  async getMatchJudgeRatings(matchId: string): Promise<JudgeRating[]> {
+    return await db
+      .select(getTableColumns(judgeRatings))
+      .from(judgeRatings)
+      .innerJoin(messages, eq(judgeRatings.messageId, messages.id))
+      .where(eq(messages.matchId, matchId))
+      .orderBy(asc(judgeRatings.ratedAt));
   }
 
   async updateJudgeElo(userId: string, newJudgeElo: number): Promise<void> {
@@ -409,13 +1191,689 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, userId));
   }
 
-  async updateJudgeStats(userId: string, agreed: boolean): Promise<void> {
+  async updateJudgeStats(userId: string, agreement: number): Promise<void> {
     await db
       .update(users)
       .set({
         totalJudgeMatches: sql`total_judge_matches + 1`,
-        judgeAgreements: agreed ? sql`judge_agreements + 1` : sql`judge_agreements`,
-        judgeDisagreements: agreed ? sql`judge_disagreements` : sql`judge_disagreements + 1`,
+        judgeAgreements: sql`judge_agreements + ${agreement}`,
+        judgeDisagreements: sql`judge_disagreements + ${1 - agreement}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
+  async getJudgeRatingPairs(judgeId: string, limit: number): Promise<Array<{ rating: MoveRating; referenceRating: MoveRating }>> {
+    // Each rating is compared with the AI tie-breaker where one exists, otherwise the other judge
+    const otherRatings = alias(judgeRatings, "other_ratings");
+    const pairs = await db
+      .select({
+        rating: judgeRatings.rating,
+        referenceRating: sql<MoveRating>`COALESCE(${aiEvaluations.rating}, ${otherRatings.rating})`,
+      })
+      .from(judgeRatings)
+      .leftJoin(aiEvaluations, eq(aiEvaluations.messageId, judgeRatings.messageId))
+      .leftJoin(
+        otherRatings,
+        and(
+          eq(otherRatings.messageId, judgeRatings.messageId),
+          ne(otherRatings.judgeId, judgeRatings.judgeId)
+        )
+      )
+      .where(
+        and(
+          eq(judgeRatings.judgeId, judgeId),
+          sql`COALESCE(${aiEvaluations.rating}, ${otherRatings.rating}) IS NOT NULL`
+        )
+      )
+      .orderBy(desc(judgeRatings.ratedAt))
+      .limit(limit);
+    return pairs;
+  }
+
+  async getPlayerRubricAverages(userId: string): Promise<{ [K in keyof RubricScores]: number | null } & { ratedMessages: number }> {
+    // Averages over every rubric a judge has filled in for this player's messages
+    const [averages] = await db
+      .select({
+        strategicValue: sql<number | null>`AVG(${judgeRatings.strategicValue})::float`,
+        psychologicalImpact: sql<number | null>`AVG(${judgeRatings.psychologicalImpact})::float`,
+        clarity: sql<number | null>`AVG(${judgeRatings.clarity})::float`,
+        tacticalSophistication: sql<number | null>`AVG(${judgeRatings.tacticalSophistication})::float`,
+        ratedMessages: sql<number>`COUNT(${judgeRatings.strategicValue})::int`,
+      })
+      .from(judgeRatings)
+      .innerJoin(messages, eq(judgeRatings.messageId, messages.id))
+      .where(eq(messages.userId, userId));
+    return averages;
+  }
+
+  // AI evaluation operations
+  async createAiEvaluation(evaluation: InsertAiEvaluation): Promise<AiEvaluation> {
+    // One tie-breaker per message; if another request got there first, keep theirs
+    const [newEvaluation] = await db
+      .insert(aiEvaluations)
+      .values(evaluation)
+      .onConflictDoNothing({ target: aiEvaluations.messageId })
+      .returning();
+    return newEvaluation ?? (await this.getMessageAiEvaluation(evaluation.messageId))!;
+  }
+
+  async getMessageAiEvaluation(messageId: string): Promise<AiEvaluation | undefined> {
+    const [evaluation] = await db
+      .select()
+      .from(aiEvaluations)
+      .where(eq(aiEvaluations.messageId, messageId));
+    return evaluation;
+  }
+
+  async getMatchAiEvaluations(matchId: string): Promise<AiEvaluation[]> {
+    return await db
+      .select(getTableColumns(aiEvaluations))
+      .from(aiEvaluations)
+      .innerJoin(messages, eq(aiEvaluations.messageId, messages.id))
+      .where(eq(messages.matchId, matchId));
+  }
+
+  // Calibration operations
+  async createGoldMessage(goldMessage: InsertGoldMessage): Promise<GoldMessage | undefined> {
+    // A history message is only promoted once
+    const [newGoldMessage] = await db
+      .insert(goldMessages)
+      .values(goldMessage)
+      .onConflictDoNothing({ target: goldMessages.sourceMessageId })
+      .returning();
+    return newGoldMessage;
+  }
+
+  async getGoldMessage(goldMessageId: string): Promise<GoldMessage | undefined> {
+    const [goldMessage] = await db
+      .select()
+      .from(goldMessages)
+      .where(eq(goldMessages.id, goldMessageId));
+    return goldMessage;
+  }
+
+  // Gold for a scenario match comes from earlier matches on the same scenario, along with
+  // the side its source message was written for; matches without a scenario get gold
+  // written without one. Skips gold the judge has seen before, rated live, or wrote themselves.
+  async pickGoldMessageForJudge(judgeId: string, scenarioId: string | null): Promise<(GoldMessage & { sourceSlot: 'player1' | 'player2' | null }) | undefined> {
+    const sourceMessage = alias(messages, "source_message");
+    const sourceMatch = alias(matches, "source_match");
+
+    const [goldMessage] = await db
+      .select({
+        ...getTableColumns(goldMessages),
+        sourceSlot: sql<'player1' | 'player2' | null>`CASE
+          WHEN ${sourceMessage.userId} = ${sourceMatch.player1Id} THEN 'player1'
+          WHEN ${sourceMessage.userId} = ${sourceMatch.player2Id} THEN 'player2'
+        END`,
+      })
+      .from(goldMessages)
+      .leftJoin(sourceMessage, eq(goldMessages.sourceMessageId, sourceMessage.id))
+      .leftJoin(sourceMatch, eq(sourceMessage.matchId, sourceMatch.id))
+      .where(
+        and(
+          eq(goldMessages.active, true),
+          scenarioId ? eq(sourceMatch.scenarioId, scenarioId) : isNull(sourceMatch.scenarioId),
+          sql`NOT EXISTS (SELECT 1 FROM calibration_items ci WHERE ci.gold_message_id = ${goldMessages.id} AND ci.judge_id = ${judgeId})`,
+          sql`NOT EXISTS (SELECT 1 FROM judge_ratings jr WHERE jr.message_id = ${goldMessages.sourceMessageId} AND jr.judge_id = ${judgeId})`,
+          sql`NOT EXISTS (SELECT 1 FROM messages m WHERE m.id = ${goldMessages.sourceMessageId} AND m.user_id = ${judgeId})`
+        )
+      )
+      .orderBy(sql`RANDOM()`)
+      .limit(1);
+    return goldMessage;
+  }
+
+  async createCalibrationItem(item: InsertCalibrationItem): Promise<CalibrationItem | undefined> {
+    const [newItem] = await db
+      .insert(calibrationItems)
+      .values(item)
+      .onConflictDoNothing({ target: [calibrationItems.goldMessageId, calibrationItems.judgeId] })
+      .returning();
+    return newItem;
+  }
+
+  async getCalibrationItem(itemId: string): Promise<CalibrationItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(calibrationItems)
+      .where(eq(calibrationItems.id, itemId));
+    return item;
+  }
+
+  async revealCalibrationItems(matchId: string, judgeId: string, messageCount: number, attributedUserId: string): Promise<void> {
+    await db
+      .update(calibrationItems)
+      .set({ shownAt: new Date() })
+      .where(
+        and(
+          eq(calibrationItems.matchId, matchId),
+          eq(calibrationItems.judgeId, judgeId),
+          isNull(calibrationItems.shownAt),
+          sql`${calibrationItems.showAfterMessages} <= ${messageCount}`,
+          eq(calibrationItems.attributedUserId, attributedUserId)
+        )
+      );
+  }
+
+  async getShownCalibrationItems(matchId: string, judgeId: string): Promise<Array<CalibrationItem & { content: string }>> {
+    return await db
+      .select({
+        ...getTableColumns(calibrationItems),
+        content: goldMessages.content,
+      })
+      .from(calibrationItems)
+      .innerJoin(goldMessages, eq(calibrationItems.goldMessageId, goldMessages.id))
+      .where(
+        and(
+          eq(calibrationItems.matchId, matchId),
+          eq(calibrationItems.judgeId, judgeId),
+          sql`${calibrationItems.shownAt} IS NOT NULL`
+        )
+      );
+  }
+
+  async recordCalibrationRating(itemId: string, rating: MoveRating): Promise<boolean> {
+    const updated = await db
+      .update(calibrationItems)
+      .set({ rating, ratedAt: new Date() })
+      .where(and(eq(calibrationItems.id, itemId), isNull(calibrationItems.rating)))
+      .returning({ id: calibrationItems.id });
+    return updated.length > 0;
+  }
+
+  async updateCalibrationStats(userId: string, agreement: number): Promise<void> {
+    await db
+      .update(users)
+      .set({
+        calibrationScore: sql`calibration_score + ${agreement}`,
+        calibrationRatings: sql`calibration_ratings + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
+  // Scenario operations
+  async createScenario(scenario: InsertScenario): Promise<Scenario> {
+    const [newScenario] = await db
+      .insert(scenarios)
+      .values(scenario)
+      .returning();
+    return newScenario;
+  }
+
+  async getScenario(scenarioId: string): Promise<Scenario | undefined> {
+    const [scenario] = await db
+      .select()
+      .from(scenarios)
+      .where(eq(scenarios.id, scenarioId));
+    return scenario;
+  }
+
+  async countScenarios(): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(scenarios);
+    return result.count;
+  }
+
+  async pickScenarioForPlayers(playerIds: string[]): Promise<Scenario | undefined> {
+    // Favour the scenarios these players have played least, picking at random among ties
+    const [scenario] = await db
+      .select()
+      .from(scenarios)
+      .where(eq(scenarios.active, true))
+      .orderBy(
+        sql`(SELECT COUNT(*) FROM matches m WHERE m.scenario_id = ${scenarios.id} AND (m.player1_id IN ${playerIds} OR m.player2_id IN ${playerIds}))`,
+        sql`RANDOM()`
+      )
+      .limit(1);
+    return scenario;
+  }
+
+  // Challenge operations
+  async createChallenge(challenge: InsertChallenge): Promise<Challenge> {
+    const [newChallenge] = await db
+      .insert(challenges)
+      .values(challenge)
+      .returning();
+    return newChallenge;
+  }
+
+  async getChallenge(challengeId: string): Promise<Challenge | undefined> {
+    const [challenge] = await db
+      .select()
+      .from(challenges)
+      .where(eq(challenges.id, challengeId));
+    return challenge;
+  }
+
+  async getChallengeByInviteCode(inviteCode: string): Promise<Challenge | undefined> {
+    const [challenge] = await db
+      .select()
+      .from(challenges)
+      .where(eq(challenges.inviteCode, inviteCode));
+    return challenge;
+  }
+
+  async getUserChallenges(userId: string): Promise<any[]> {
+    const challenger = alias(users, "challenger");
+    const challenged = alias(users, "challenged");
+
+    return await db
+      .select({
+        ...getTableColumns(challenges),
+        challenger: {
+          id: challenger.id,
+          firstName: challenger.firstName,
+          lastName: challenger.lastName,
+          elo: challenger.elo,
+        },
+        challenged: {
+          id: challenged.id,
+          firstName: challenged.firstName,
+          lastName: challenged.lastName,
+          elo: challenged.elo,
+        },
+      })
+      .from(challenges)
+      .innerJoin(challenger, eq(challenges.challengerId, challenger.id))
+      .leftJoin(challenged, eq(challenges.challengedId, challenged.id))
+      .where(
+        and(
+          or(
+            eq(challenges.challengerId, userId),
+            eq(challenges.challengedId, userId),
+            eq(challenges.judge1Id, userId),
+            eq(challenges.judge2Id, userId)
+          ),
+          or(sql`${challenges.expiresAt} > NOW()`, ne(challenges.status, 'pending'))
+        )
+      )
+      .orderBy(desc(challenges.createdAt))
+      .limit(20);
+  }
+
+  async acceptChallenge(challengeId: string, userId: string): Promise<Challenge | undefined> {
+    // Guarded so a challenge, and an invite code in particular, is only accepted once
+    const [challenge] = await db
+      .update(challenges)
+      .set({ status: 'accepted', challengedId: userId, respondedAt: new Date() })
+      .where(
+        and(
+          eq(challenges.id, challengeId),
+          eq(challenges.status, 'pending'),
+          sql`${challenges.expiresAt} > NOW()`,
+          or(eq(challenges.challengedId, userId), isNull(challenges.challengedId))
+        )
+      )
+      .returning();
+    return challenge;
+  }
+
+  async closeChallenge(challengeId: string, status: ChallengeStatus): Promise<boolean> {
+    const updated = await db
+      .update(challenges)
+      .set({ status, respondedAt: new Date() })
+      .where(and(eq(challenges.id, challengeId), eq(challenges.status, 'pending')))
+      .returning({ id: challenges.id });
+    return updated.length > 0;
+  }
+
+  async setChallengeMatch(challengeId: string, matchId: string): Promise<void> {
+    await db
+      .update(challenges)
+      .set({ matchId })
+      .where(eq(challenges.id, challengeId));
+  }
+
+  // A named judge can accept while the challenge is open, or after the opponent has
+  // accepted and the match is waiting on the judges
+  async acceptChallengeJudging(challengeId: string, judgeId: string, slot: 'judge1' | 'judge2'): Promise<Challenge | undefined> {
+    const [challenge] = await db
+      .update(challenges)
+      .set(slot === 'judge1' ? { judge1AcceptedAt: new Date() } : { judge2AcceptedAt: new Date() })
+      .where(
+        and(
+          eq(challenges.id, challengeId),
+          slot === 'judge1' ? eq(challenges.judge1Id, judgeId) : eq(challenges.judge2Id, judgeId),
+          slot === 'judge1' ? isNull(challenges.judge1AcceptedAt) : isNull(challenges.judge2AcceptedAt),
+          or(
+            and(eq(challenges.status, 'pending'), sql`${challenges.expiresAt} > NOW()`),
+            eq(challenges.status, 'accepted')
+          )
+        )
+      )
+      .returning();
+    return challenge;
+  }
+
+  // Drops both named judges so the match takes judges from the queue instead. When a
+  // judge declines, it only goes through while they haven't accepted yet.
+  async releaseChallengeJudges(challengeId: string, declinedBy?: string): Promise<boolean> {
+    const updated = await db
+      .update(challenges)
+      .set({ judge1Id: null, judge2Id: null, judge1AcceptedAt: null, judge2AcceptedAt: null })
+      .where(
+        and(
+          eq(challenges.id, challengeId),
+          inArray(challenges.status, ['pending', 'accepted']),
+          declinedBy
+            ? or(
+                and(eq(challenges.judge1Id, declinedBy), isNull(challenges.judge1AcceptedAt)),
+                and(eq(challenges.judge2Id, declinedBy), isNull(challenges.judge2AcceptedAt))
+              )
+            : sql`${challenges.judge1Id} IS NOT NULL`
+        )
+      )
+      .returning({ id: challenges.id });
+    return updated.length > 0;
+  }
+
+  // Named judges who haven't both accepted by the cutoff lose their seats, so the
+  // players aren't left waiting on them
+  async releaseUnansweredChallengeJudges(acceptedBefore: Date): Promise<void> {
+    await db
+      .update(challenges)
+      .set({ judge1Id: null, judge2Id: null, judge1AcceptedAt: null, judge2AcceptedAt: null })
+      .where(
+        and(
+          eq(challenges.status, 'accepted'),
+          sql`${challenges.judge1Id} IS NOT NULL`,
+          sql`${challenges.respondedAt} < ${acceptedBefore}`,
+          sql`EXISTS (SELECT 1 FROM matches m WHERE m.id = ${challenges.matchId} AND m.status = 'waiting')`
+        )
+      );
+  }
+
+  // Guarded like claimJudgesForMatch, so a match only gets its judges once
+  async assignMatchJudges(matchId: string, judge1Id: string, judge2Id: string): Promise<Match | undefined> {
+    const [match] = await db
+      .update(matches)
+      .set({ judge1Id, judge2Id, status: 'active', startedAt: new Date() })
+      .where(and(eq(matches.id, matchId), eq(matches.status, 'waiting'), isNull(matches.judge1Id)))
+      .returning();
+    return match;
+  }
+
+  // Rematch operations
+  async createRematch(rematch: InsertRematch): Promise<Rematch | undefined> {
+    // Each match can only be rematched once
+    const [newRematch] = await db
+      .insert(rematches)
+      .values(rematch)
+      .onConflictDoNothing({ target: rematches.matchId })
+      .returning();
+    return newRematch;
+  }
+
+  async getRematch(rematchId: string): Promise<Rematch | undefined> {
+    const [rematch] = await db
+      .select()
+      .from(rematches)
+      .where(eq(rematches.id, rematchId));
+    return rematch;
+  }
+
+  async getMatchRematch(matchId: string): Promise<Rematch | undefined> {
+    const [rematch] = await db
+      .select()
+      .from(rematches)
+      .where(eq(rematches.matchId, matchId));
+    return rematch;
+  }
+
+  async getPendingRematches(): Promise<Rematch[]> {
+    return await db
+      .select()
+      .from(rematches)
+      .where(eq(rematches.status, 'pending'));
+  }
+
+  // Each seat answers once, while the request is open. A player declining calls the
+  // rematch off; a judge declining only means queue judges take their place.
+  async recordRematchAnswer(rematchId: string, seat: RematchSeat, accept: boolean): Promise<boolean> {
+    const open = and(
+      eq(rematches.id, rematchId),
+      eq(rematches.status, 'pending'),
+      sql`${rematches.expiresAt} > NOW()`
+    );
+
+    let updated: Array<{ id: string }>;
+    if (seat === 'judge1' || seat === 'judge2') {
+      const column = seat === 'judge1' ? rematches.judge1Accepted : rematches.judge2Accepted;
+      updated = await db
+        .update(rematches)
+        .set(seat === 'judge1' ? { judge1Accepted: accept } : { judge2Accepted: accept })
+        .where(and(open, isNull(column)))
+        .returning({ id: rematches.id });
+    } else if (accept) {
+      const column = seat === 'player1' ? rematches.player1AcceptedAt : rematches.player2AcceptedAt;
+      updated = await db
+        .update(rematches)
+        .set(seat === 'player1' ? { player1AcceptedAt: new Date() } : { player2AcceptedAt: new Date() })
+        .where(and(open, isNull(column)))
+        .returning({ id: rematches.id });
+    } else {
+      updated = await db
+        .update(rematches)
+        .set({ status: 'declined' })
+        .where(open)
+        .returning({ id: rematches.id });
+    }
+    return updated.length > 0;
+  }
+
+  async closeRematch(rematchId: string, status: RematchStatus): Promise<boolean> {
+    const updated = await db
+      .update(rematches)
+      .set({ status })
+      .where(and(eq(rematches.id, rematchId), eq(rematches.status, 'pending')))
+      .returning({ id: rematches.id });
+    return updated.length > 0;
+  }
+
+  async setRematchMatch(rematchId: string, matchId: string): Promise<void> {
+    await db
+      .update(rematches)
+      .set({ newMatchId: matchId })
+      .where(eq(rematches.id, rematchId));
+  }
+
+  // Appeal operations
+  async createAppeal(appeal: InsertAppeal): Promise<Appeal> {
+    const [newAppeal] = await db
+      .insert(appeals)
+      .values(appeal)
+      .returning();
+    return newAppeal;
+  }
+
+  async getAppeal(appealId: string): Promise<Appeal | undefined> {
+    const [appeal] = await db
+      .select()
+      .from(appeals)
+      .where(eq(appeals.id, appealId));
+    return appeal;
+  }
+
+  async findPlayerAppeal(matchId: string, appellantId: string, messageId: string | null): Promise<Appeal | undefined> {
+    const [appeal] = await db
+      .select()
+      .from(appeals)
+      .where(
+        and(
+          eq(appeals.matchId, matchId),
+          eq(appeals.appellantId, appellantId),
+          messageId ? eq(appeals.messageId, messageId) : isNull(appeals.messageId)
+        )
+      );
+    return appeal;
+  }
+
+  async getMatchAppeals(matchId: string): Promise<Appeal[]> {
+    return await db
+      .select()
+      .from(appeals)
+      .where(eq(appeals.matchId, matchId))
+      .orderBy(asc(appeals.createdAt));
+  }
+
+  // Eligible reviewers with the fewest appeals still waiting on them go first, and ties are
+  // broken at random, so appeals spread across everyone above the judge ELO bar
+  async findAppealPanel(excludeUserIds: string[], minJudgeElo: number, limit: number): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(
+        and(
+          sql`${users.judgeElo} >= ${minJudgeElo}`,
+          excludeUserIds.length > 0 ? notInArray(users.id, excludeUserIds) : undefined
+        )
+      )
+      .orderBy(
+        sql`(
+          SELECT COUNT(*) FROM appeal_reviews r
+          INNER JOIN appeals a ON a.id = r.appeal_id
+          WHERE r.reviewer_id = ${users.id}
+            AND r.reviewed_at IS NULL
+            AND r.replaced_at IS NULL
+            AND a.status = 'under_review'
+        )`,
+        sql`RANDOM()`
+      )
+      .limit(limit);
+  }
+
+  async assignAppealReviewers(appealId: string, reviewerIds: string[]): Promise<void> {
+    if (reviewerIds.length === 0) return;
+    await db
+      .insert(appealReviews)
+      .values(reviewerIds.map(reviewerId => ({ appealId, reviewerId })))
+      .onConflictDoNothing({ target: [appealReviews.appealId, appealReviews.reviewerId] });
+  }
+
+  async getAppealReviews(appealId: string): Promise<AppealReview[]> {
+    return await db
+      .select()
+      .from(appealReviews)
+      .where(eq(appealReviews.appealId, appealId));
+  }
+
+  async recordAppealReview(appealId: string, reviewerId: string, review: { rating?: MoveRating; verdict?: MatchVerdict }): Promise<boolean> {
+    const updated = await db
+      .update(appealReviews)
+      .set({ ...review, reviewedAt: new Date() })
+      .where(
+        and(
+          eq(appealReviews.appealId, appealId),
+          eq(appealReviews.reviewerId, reviewerId),
+          isNull(appealReviews.reviewedAt),
+          isNull(appealReviews.replacedAt)
+        )
+      )
+      .returning({ id: appealReviews.id });
+    return updated.length > 0;
+  }
+
+  async getPendingAppealReviews(reviewerId: string): Promise<Array<{ review: AppealReview; appeal: Appeal }>> {
+    return await db
+      .select({ review: appealReviews, appeal: appeals })
+      .from(appealReviews)
+      .innerJoin(appeals, eq(appealReviews.appealId, appeals.id))
+      .where(
+        and(
+          eq(appealReviews.reviewerId, reviewerId),
+          isNull(appealReviews.reviewedAt),
+          isNull(appealReviews.replacedAt),
+          eq(appeals.status, 'under_review')
+        )
+      )
+      .orderBy(asc(appeals.createdAt));
+  }
+
+  async resolveAppeal(appealId: string, status: AppealStatus, result: { finalRating?: MoveRating; finalVerdict?: MatchVerdict }): Promise<boolean> {
+    // Guarded by status so an appeal is only resolved once
+    const updated = await db
+      .update(appeals)
+      .set({ ...result, status, resolvedAt: new Date() })
+      .where(and(eq(appeals.id, appealId), eq(appeals.status, 'under_review')))
+      .returning({ id: appeals.id });
+    return updated.length > 0;
+  }
+
+  // Reviews still owed on open appeals by reviewers assigned before the cutoff
+  async getStaleAppealReviews(assignedBefore: Date): Promise<Array<{ review: AppealReview; appeal: Appeal }>> {
+    return await db
+      .select({ review: appealReviews, appeal: appeals })
+      .from(appealReviews)
+      .innerJoin(appeals, eq(appealReviews.appealId, appeals.id))
+      .where(
+        and(
+          isNull(appealReviews.reviewedAt),
+          isNull(appealReviews.replacedAt),
+          sql`${appealReviews.assignedAt} < ${assignedBefore}`,
+          eq(appeals.status, 'under_review')
+        )
+      )
+      .orderBy(asc(appealReviews.assignedAt));
+  }
+
+  // The old row is kept, marked replaced, so the same reviewer isn't picked for the appeal again.
+  // Fails if the reviewer submitted in the meantime.
+  async replaceAppealReviewer(reviewId: string, appealId: string, reviewerId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const replaced = await tx
+        .update(appealReviews)
+        .set({ replacedAt: new Date() })
+        .where(
+          and(
+            eq(appealReviews.id, reviewId),
+            isNull(appealReviews.reviewedAt),
+            isNull(appealReviews.replacedAt)
+          )
+        )
+        .returning({ id: appealReviews.id });
+      if (replaced.length === 0) return false;
+
+      await tx.insert(appealReviews).values({ appealId, reviewerId });
+      return true;
+    });
+  }
+
+  async getUnresolvedAppeals(createdBefore: Date): Promise<Appeal[]> {
+    return await db
+      .select()
+      .from(appeals)
+      .where(and(eq(appeals.status, 'under_review'), sql`${appeals.createdAt} < ${createdBefore}`))
+      .orderBy(asc(appeals.createdAt));
+  }
+
+  async getMatchOverturnedRatings(matchId: string): Promise<Array<{ messageId: string; finalRating: MoveRating }>> {
+    return await db
+      .select({
+        messageId: sql<string>`${appeals.messageId}`,
+        finalRating: sql<MoveRating>`${appeals.finalRating}`,
+      })
+      .from(appeals)
+      .where(
+        and(
+          eq(appeals.matchId, matchId),
+          eq(appeals.status, 'overturned'),
+          sql`${appeals.messageId} IS NOT NULL`,
+          sql`${appeals.finalRating} IS NOT NULL`
+        )
+      )
+      // Oldest first, so the latest ruling on a message is the one that sticks
+      .orderBy(asc(appeals.resolvedAt));
+  }
+
+  async recordJudgeOverturn(userId: string): Promise<void> {
+    await db
+      .update(users)
+      .set({
+        judgeOverturns: sql`judge_overturns + 1`,
         updatedAt: new Date(),
       })
       .where(eq(users.id, userId));
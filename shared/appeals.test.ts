@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isVerdictAppealable } from "./appeals";
+
+describe("isVerdictAppealable", () => {
+  it("allows appeals against a judges' verdict", () => {
+    assert.equal(isVerdictAppealable({ status: 'completed', endReason: 'verdict' }), true);
+  });
+
+  it("allows appeals when the players agreed to end and the judges decided", () => {
+    assert.equal(isVerdictAppealable({ status: 'completed', endReason: 'agreed_end' }), true);
+  });
+
+  it("rejects endings the judges never ruled on", () => {
+    for (const endReason of ['agreed_draw', 'time', 'forfeit'] as const) {
+      assert.equal(isVerdictAppealable({ status: 'completed', endReason }), false, endReason);
+    }
+  });
+
+  it("rejects forfeited matches", () => {
+    assert.equal(isVerdictAppealable({ status: 'forfeit', endReason: 'verdict' }), false);
+  });
+
+  it("rejects matches without an end reason", () => {
+    assert.equal(isVerdictAppealable({ status: 'completed', endReason: null }), false);
+  });
+});
@@ -0,0 +1,7 @@
+import type { Match } from "./schema";
+
+// Only the judges' verdict can be appealed, including on a match the players agreed to
+// end early. Agreed draws, flag falls and forfeits were never put to the judges.
+export function isVerdictAppealable(match: Pick<Match, 'status' | 'endReason'>): boolean {
+  return match.status === 'completed' && (match.endReason === 'verdict' || match.endReason === 'agreed_end');
+}
@@ -0,0 +1,42 @@
+import type { GameMode } from "./schema";
+import type { TimeControlId } from "./timeControls";
+
+export interface GameModeDefinition {
+  name: string;
+  description: string;
+  timeControl: TimeControlId; // Queue matches use this; challenges pick their own
+  messagesPerPlayer: number | null; // The match goes to the judges once both players have sent this many
+  maxMessageLength: number | null; // Characters per message
+  firstMove: 'random' | 'lower_rated'; // Who gets player 1's seat and the opening message
+}
+
+export const GAME_MODES: Record<GameMode, GameModeDefinition> = {
+  standard: {
+    name: 'Standard',
+    description: 'The classic game: no message limits, played until the clock runs out',
+    timeControl: '5+0',
+    messagesPerPlayer: null,
+    maxMessageLength: null,
+    firstMove: 'random',
+  },
+  blitz: {
+    name: 'Blitz',
+    description: 'Short messages with no cap, played until a flag falls',
+    timeControl: '3+2',
+    messagesPerPlayer: null,
+    maxMessageLength: 200,
+    firstMove: 'random',
+  },
+  three_each: {
+    name: 'Three Messages Each',
+    description: 'Three long messages each; the lower-rated player opens',
+    timeControl: '10+0',
+    messagesPerPlayer: 3,
+    maxMessageLength: 1000,
+    firstMove: 'lower_rated',
+  },
+};
+
+export const GAME_MODE_IDS = Object.keys(GAME_MODES) as [GameMode, ...GameMode[]];
+
+export const DEFAULT_GAME_MODE: GameMode = 'standard';
@@ -7,12 +7,17 @@ import {
   timestamp,
   varchar,
   integer,
+  real,
   text,
   boolean,
   pgEnum,
+  unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { TIME_CONTROL_IDS, DEFAULT_TIME_CONTROL } from "./timeControls";
+import { GAME_MODE_IDS, DEFAULT_GAME_MODE } from "./gameModes";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -42,15 +47,46 @@ export const users = pgTable("users", {
   totalJudgeMatches: integer("total_judge_matches").default(0).notNull(),
   wins: integer("wins").default(0).notNull(),
   losses: integer("losses").default(0).notNull(),
-  judgeAgreements: integer("judge_agreements").default(0).notNull(),
-  judgeDisagreements: integer("judge_disagreements").default(0).notNull(),
+  draws: integer("draws").default(0).notNull(),
+  // Distance-weighted: each rated message adds its 0-1 agreement here and the remainder to disagreements
+  judgeAgreements: real("judge_agreements").default(0).notNull(),
+  judgeDisagreements: real("judge_disagreements").default(0).notNull(),
+  // Accuracy against hidden gold-standard messages: summed 0-1 agreement over the count rated
+  calibrationScore: real("calibration_score").default(0).notNull(),
+  calibrationRatings: integer("calibration_ratings").default(0).notNull(),
+  judgeOverturns: integer("judge_overturns").default(0).notNull(), // Ratings or verdicts overturned on appeal
+  queueAbandons: integer("queue_abandons").default(0).notNull(), // Queue entries evicted after the client stopped polling
+  queueCooldownUntil: timestamp("queue_cooldown_until"), // Set when the user declines or misses a ready check
+  isAdmin: boolean("is_admin").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const matchStatusEnum = pgEnum('match_status', ['waiting', 'active', 'completed', 'forfeit']);
+export const gameModeEnum = pgEnum('game_mode', ['standard', 'blitz', 'three_each']); // Rules for each mode live in gameModes.ts
+export const matchStatusEnum = pgEnum('match_status', ['waiting', 'ready_check', 'active', 'pending_verdict', 'completed', 'forfeit']);
 export const moveRatingEnum = pgEnum('move_rating', ['brilliant', 'great', 'excellent', 'good', 'miss', 'mistake', 'blunder']);
-export const matchTypeEnum = pgEnum('match_type', ['player', 'judge']);
+export const matchTypeEnum = pgEnum('match_type', ['player', 'judge', 'flex']); // flex: matchmaker picks whichever role completes a match
+export const matchVerdictEnum = pgEnum('match_verdict', ['player1', 'player2', 'draw']);
+export const appealStatusEnum = pgEnum('appeal_status', ['under_review', 'upheld', 'overturned', 'expired']); // expired: no reviewer voted before the deadline
+export const challengeStatusEnum = pgEnum('challenge_status', ['pending', 'accepted', 'declined', 'cancelled']);
+export const rematchStatusEnum = pgEnum('rematch_status', ['pending', 'accepted', 'declined', 'expired']);
+export const matchOfferTypeEnum = pgEnum('match_offer_type', ['draw', 'end_early']); // end_early: stop playing and go to the judges
+export const matchEndReasonEnum = pgEnum('match_end_reason', ['verdict', 'agreed_end', 'time', 'agreed_draw', 'forfeit']);
+
+// A topic for a match, giving each player a side to argue. Goals are private: each
+// player only sees their own, while judges see both.
+export const scenarios = pgTable("scenarios", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: varchar("title").notNull(),
+  setup: text("setup").notNull(),
+  player1Role: varchar("player1_role").notNull(),
+  player2Role: varchar("player2_role").notNull(),
+  player1Goal: text("player1_goal").notNull(),
+  player2Goal: text("player2_goal").notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
 
 export const matches = pgTable("matches", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -59,13 +95,35 @@ export const matches = pgTable("matches", {
   judge1Id: varchar("judge1_id").references(() => users.id),
   judge2Id: varchar("judge2_id").references(() => users.id),
   status: matchStatusEnum("status").default('waiting').notNull(),
+  gameMode: gameModeEnum("game_mode").default('standard').notNull(),
+  scenarioId: varchar("scenario_id").references(() => scenarios.id), // null when no scenario was available
   currentTurn: varchar("current_turn").references(() => users.id),
   winnerId: varchar("winner_id").references(() => users.id),
-  player1Score: integer("player1_score").default(0),
-  player2Score: integer("player2_score").default(0),
+  player1Score: real("player1_score").default(0),
+  player2Score: real("player2_score").default(0),
   startedAt: timestamp("started_at"),
   endedAt: timestamp("ended_at"),
-  timeLimit: integer("time_limit").default(300), // 5 minutes in seconds
+  endReason: matchEndReasonEnum("end_reason"), // Only verdict and agreed_end matches were decided by the judges, so only they have a verdict to appeal
+  timeLimit: integer("time_limit").default(300), // Each player's starting clock, in seconds
+  timeIncrement: integer("time_increment").default(0).notNull(), // Seconds added to a player's clock per message
+  // Clocks in milliseconds as of the last move; null until that player first moves, meaning
+  // the full time limit. The player to move is charged from turnStartedAt (or startedAt).
+  player1TimeRemaining: integer("player1_time_remaining"),
+  player2TimeRemaining: integer("player2_time_remaining"),
+  turnStartedAt: timestamp("turn_started_at"),
+  judge1Verdict: matchVerdictEnum("judge1_verdict"),
+  judge2Verdict: matchVerdictEnum("judge2_verdict"),
+  verdictDeadline: timestamp("verdict_deadline"),
+  // A player's pending draw or end-early offer; it lapses when the opponent sends their next message
+  offerType: matchOfferTypeEnum("offer_type"),
+  offeredBy: varchar("offered_by").references(() => users.id),
+  readyDeadline: timestamp("ready_deadline"), // Queue matches start only once all four participants accept by this time
+  blindJudging: boolean("blind_judging").default(false).notNull(), // Judges see "Player A" / "Player B" until their ratings are locked
+  rated: boolean("rated").default(true).notNull(), // Unrated matches (e.g. friendly challenges) leave ELO and stats untouched
+  repeatPairing: boolean("repeat_pairing").default(false).notNull(), // Matchmaker paired recent opponents again
+  rematchOf: varchar("rematch_of").references((): AnyPgColumn => matches.id), // Previous match in a rematch series
+  player1EloChange: integer("player1_elo_change"), // Recorded so an appeal can revise the result
+  player2EloChange: integer("player2_elo_change"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -77,13 +135,164 @@ export const messages = pgTable("messages", {
   sentAt: timestamp("sent_at").defaultNow(),
 });
 
-export const judgeRatings = pgTable("judge_ratings", {
+export const judgeRatings = pgTable(
+  "judge_ratings",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    messageId: varchar("message_id").references(() => messages.id).notNull(),
+    judgeId: varchar("judge_id").references(() => users.id).notNull(),
+    rating: moveRatingEnum("rating").notNull(),
+    explanation: text("explanation"),
+    // Optional 1-5 rubric scores; when given, the rating is derived from them
+    strategicValue: integer("strategic_value"),
+    psychologicalImpact: integer("psychological_impact"),
+    clarity: integer("clarity"),
+    tacticalSophistication: integer("tactical_sophistication"),
+    ratedAt: timestamp("rated_at").defaultNow(),
+  },
+  // Each judge rates a message once
+  (table) => [unique("UQ_judge_rating_message_judge").on(table.messageId, table.judgeId)],
+);
+
+// AI third opinion that settles a message's rating when its two judges disagree
+export const aiEvaluations = pgTable("ai_evaluations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  messageId: varchar("message_id").references(() => messages.id).notNull(),
-  judgeId: varchar("judge_id").references(() => users.id).notNull(),
+  messageId: varchar("message_id").references(() => messages.id).notNull().unique(),
   rating: moveRatingEnum("rating").notNull(),
   explanation: text("explanation"),
-  ratedAt: timestamp("rated_at").defaultNow(),
+  score: integer("score"),
+  evaluatedAt: timestamp("evaluated_at").defaultNow(),
+});
+
+// Gold-standard messages with known reference ratings, used to calibrate judges
+export const goldMessages = pgTable("gold_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  content: text("content").notNull(),
+  referenceRating: moveRatingEnum("reference_rating").notNull(),
+  explanation: text("explanation"),
+  sourceMessageId: varchar("source_message_id").references(() => messages.id).unique(), // set when promoted from match history
+  createdBy: varchar("created_by").references(() => users.id),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A gold message slipped into one judge's view of a match, shown as a player's final reply once play stops
+export const calibrationItems = pgTable(
+  "calibration_items",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    goldMessageId: varchar("gold_message_id").references(() => goldMessages.id).notNull(),
+    matchId: varchar("match_id").references(() => matches.id).notNull(),
+    judgeId: varchar("judge_id").references(() => users.id).notNull(),
+    attributedUserId: varchar("attributed_user_id").references(() => users.id).notNull(),
+    showAfterMessages: integer("show_after_messages").notNull(), // Live messages the match needs before the gold can be shown
+    shownAt: timestamp("shown_at"),
+    rating: moveRatingEnum("rating"),
+    ratedAt: timestamp("rated_at"),
+  },
+  (table) => [unique("UQ_calibration_item_gold_judge").on(table.goldMessageId, table.judgeId)],
+);
+
+// A player's dispute of a message rating (messageId set) or of the match verdict
+export const appeals = pgTable("appeals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id").references(() => matches.id).notNull(),
+  messageId: varchar("message_id").references(() => messages.id),
+  appellantId: varchar("appellant_id").references(() => users.id).notNull(),
+  reason: text("reason").notNull(),
+  status: appealStatusEnum("status").default('under_review').notNull(),
+  originalRating: moveRatingEnum("original_rating"), // null when the judges split and the message scored the average of their points
+  originalPoints: real("original_points"),
+  finalRating: moveRatingEnum("final_rating"),
+  originalWinnerId: varchar("original_winner_id").references(() => users.id),
+  finalVerdict: matchVerdictEnum("final_verdict"),
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// One row per panelist assigned to an appeal; filled in when they submit their review
+export const appealReviews = pgTable(
+  "appeal_reviews",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    appealId: varchar("appeal_id").references(() => appeals.id).notNull(),
+    reviewerId: varchar("reviewer_id").references(() => users.id).notNull(),
+    rating: moveRatingEnum("rating"),
+    verdict: matchVerdictEnum("verdict"),
+    assignedAt: timestamp("assigned_at").defaultNow(),
+    reviewedAt: timestamp("reviewed_at"),
+    replacedAt: timestamp("replaced_at"), // Set when the reviewer ran out of time and the seat went to someone else
+  },
+  (table) => [unique("UQ_appeal_review_appeal_reviewer").on(table.appealId, table.reviewerId)],
+);
+
+// Audit trail of why each judge was picked for a match, including judges passed over
+export const judgeAssignments = pgTable("judge_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id").references(() => matches.id).notNull(),
+  judgeId: varchar("judge_id").references(() => users.id).notNull(),
+  slot: varchar("slot").notNull(), // 'judge1' or 'judge2'
+  reason: text("reason").notNull(),
+  skippedJudges: jsonb("skipped_judges").$type<Array<{ judgeId: string; reason: string }>>().default([]).notNull(),
+  assignedAt: timestamp("assigned_at").defaultNow(),
+});
+
+// One row per participant of a queue match awaiting its ready check. Keeps the
+// participant's queue entry so they can go back in line if the match falls through.
+export const readyChecks = pgTable(
+  "ready_checks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    matchId: varchar("match_id").references(() => matches.id).notNull(),
+    userId: varchar("user_id").references(() => users.id).notNull(),
+    matchType: matchTypeEnum("match_type").notNull(),
+    gameMode: gameModeEnum("game_mode").notNull(),
+    elo: integer("elo").notNull(),
+    joinedAt: timestamp("joined_at"),
+    readyAt: timestamp("ready_at"),
+  },
+  (table) => [unique("UQ_ready_check_match_user").on(table.matchId, table.userId)],
+);
+
+// A request to play a finished match again. Players are tracked by their seat in that
+// match. Its judges are asked too, and judge the rematch if both say yes in time.
+export const rematches = pgTable("rematches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id").references(() => matches.id).notNull().unique(),
+  requestedBy: varchar("requested_by").references(() => users.id).notNull(),
+  swapFirstMove: boolean("swap_first_move").default(true).notNull(),
+  status: rematchStatusEnum("status").default('pending').notNull(),
+  player1AcceptedAt: timestamp("player1_accepted_at"),
+  player2AcceptedAt: timestamp("player2_accepted_at"),
+  judge1Accepted: boolean("judge1_accepted"), // null until the judge answers
+  judge2Accepted: boolean("judge2_accepted"),
+  newMatchId: varchar("new_match_id").references(() => matches.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A direct challenge to a user, or an open invite (challengedId unset until someone
+// accepts the invite code). Judges are named up front or come from the judge queue.
+export const challenges = pgTable("challenges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  challengerId: varchar("challenger_id").references(() => users.id).notNull(),
+  challengedId: varchar("challenged_id").references(() => users.id),
+  inviteCode: varchar("invite_code").unique(),
+  judge1Id: varchar("judge1_id").references(() => users.id),
+  judge2Id: varchar("judge2_id").references(() => users.id),
+  // Named judges have to accept too; the match only starts once both have
+  judge1AcceptedAt: timestamp("judge1_accepted_at"),
+  judge2AcceptedAt: timestamp("judge2_accepted_at"),
+  timeLimit: integer("time_limit").default(300).notNull(), // seconds
+  timeIncrement: integer("time_increment").default(0).notNull(),
+  gameMode: gameModeEnum("game_mode").default('standard').notNull(),
+  blindJudging: boolean("blind_judging").default(false).notNull(),
+  rated: boolean("rated").default(true).notNull(),
+  status: challengeStatusEnum("status").default('pending').notNull(),
+  matchId: varchar("match_id").references(() => matches.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
 });
 
 export const queue = pgTable("queue", {
@@ -91,7 +300,9 @@ export const queue = pgTable("queue", {
   userId: varchar("user_id").references(() => users.id).notNull().unique(),
   elo: integer("elo").notNull(),
   matchType: matchTypeEnum("match_type").default('player').notNull(),
+  gameMode: gameModeEnum("game_mode").default('standard').notNull(), // Players are only paired within a mode
   joinedAt: timestamp("joined_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(), // Heartbeat from the client's queue polling
 });
 
 // Relations
@@ -133,7 +344,17 @@ export const matchesRelations = relations(matches, ({ one, many }) => ({
     references: [users.id],
     relationName: "currentTurn",
   }),
+  scenario: one(scenarios, {
+    fields: [matches.scenarioId],
+    references: [scenarios.id],
+  }),
   messages: many(messages),
+  judgeAssignments: many(judgeAssignments),
+  readyChecks: many(readyChecks),
+}));
+
+export const scenariosRelations = relations(scenarios, ({ many }) => ({
+  matches: many(matches),
 }));
 
 export const messagesRelations = relations(messages, ({ one, many }) => ({
@@ -146,6 +367,7 @@ export const messagesRelations = relations(messages, ({ one, many }) => ({
     references: [users.id],
   }),
   judgeRatings: many(judgeRatings),
+  aiEvaluations: many(aiEvaluations),
 }));
 
 export const judgeRatingsRelations = relations(judgeRatings, ({ one }) => ({
@@ -159,6 +381,115 @@ export const judgeRatingsRelations = relations(judgeRatings, ({ one }) => ({
   }),
 }));
 
+export const aiEvaluationsRelations = relations(aiEvaluations, ({ one }) => ({
+  message: one(messages, {
+    fields: [aiEvaluations.messageId],
+    references: [messages.id],
+  }),
+}));
+
+export const goldMessagesRelations = relations(goldMessages, ({ one, many }) => ({
+  sourceMessage: one(messages, {
+    fields: [goldMessages.sourceMessageId],
+    references: [messages.id],
+  }),
+  calibrationItems: many(calibrationItems),
+}));
+
+export const calibrationItemsRelations = relations(calibrationItems, ({ one }) => ({
+  goldMessage: one(goldMessages, {
+    fields: [calibrationItems.goldMessageId],
+    references: [goldMessages.id],
+  }),
+  match: one(matches, {
+    fields: [calibrationItems.matchId],
+    references: [matches.id],
+  }),
+  judge: one(users, {
+    fields: [calibrationItems.judgeId],
+    references: [users.id],
+  }),
+}));
+
+export const appealsRelations = relations(appeals, ({ one, many }) => ({
+  match: one(matches, {
+    fields: [appeals.matchId],
+    references: [matches.id],
+  }),
+  message: one(messages, {
+    fields: [appeals.messageId],
+    references: [messages.id],
+  }),
+  appellant: one(users, {
+    fields: [appeals.appellantId],
+    references: [users.id],
+  }),
+  reviews: many(appealReviews),
+}));
+
+export const appealReviewsRelations = relations(appealReviews, ({ one }) => ({
+  appeal: one(appeals, {
+    fields: [appealReviews.appealId],
+    references: [appeals.id],
+  }),
+  reviewer: one(users, {
+    fields: [appealReviews.reviewerId],
+    references: [users.id],
+  }),
+}));
+
+export const judgeAssignmentsRelations = relations(judgeAssignments, ({ one }) => ({
+  match: one(matches, {
+    fields: [judgeAssignments.matchId],
+    references: [matches.id],
+  }),
+  judge: one(users, {
+    fields: [judgeAssignments.judgeId],
+    references: [users.id],
+  }),
+}));
+
+export const readyChecksRelations = relations(readyChecks, ({ one }) => ({
+  match: one(matches, {
+    fields: [readyChecks.matchId],
+    references: [matches.id],
+  }),
+  user: one(users, {
+    fields: [readyChecks.userId],
+    references: [users.id],
+  }),
+}));
+
+export const challengesRelations = relations(challenges, ({ one }) => ({
+  challenger: one(users, {
+    fields: [challenges.challengerId],
+    references: [users.id],
+  }),
+  challenged: one(users, {
+    fields: [challenges.challengedId],
+    references: [users.id],
+  }),
+  match: one(matches, {
+    fields: [challenges.matchId],
+    references: [matches.id],
+  }),
+}));
+
+export const rematchesRelations = relations(rematches, ({ one }) => ({
+  match: one(matches, {
+    fields: [rematches.matchId],
+    references: [matches.id],
+  }),
+  requester: one(users, {
+    fields: [rematches.requestedBy],
+    references: [users.id],
+  }),
+  newMatch: one(matches, {
+    fields: [rematches.newMatchId],
+    references: [matches.id],
+  }),
+}));
+
 export const queueRelations = relations(queue, ({ one }) => ({
   user: one(users, {
     fields: [queue.userId],
@@ -188,22 +519,162 @@ export const insertJudgeRatingSchema = createInsertSchema(judgeRatings).omit({
   ratedAt: true,
 });
 
+export const insertAiEvaluationSchema = createInsertSchema(aiEvaluations).omit({
+  id: true,
+  evaluatedAt: true,
+});
+
+export const insertGoldMessageSchema = createInsertSchema(goldMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertScenarioSchema = createInsertSchema(scenarios).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCalibrationItemSchema = createInsertSchema(calibrationItems).omit({
+  id: true,
+  shownAt: true,
+  rating: true,
+  ratedAt: true,
+});
+
+export const insertAppealSchema = createInsertSchema(appeals).omit({
+  id: true,
+  status: true,
+  finalRating: true,
+  finalVerdict: true,
+  createdAt: true,
+  resolvedAt: true,
+});
+
+export const insertChallengeSchema = createInsertSchema(challenges).omit({
+  id: true,
+  status: true,
+  matchId: true,
+  createdAt: true,
+  respondedAt: true,
+});
+
 export const insertQueueSchema = createInsertSchema(queue).omit({
   id: true,
   joinedAt: true,
 });
 
+const rubricScoreSchema = z.number().int().min(1).max(5);
+
+export const rubricScoresSchema = z.object({
+  strategicValue: rubricScoreSchema,
+  psychologicalImpact: rubricScoreSchema,
+  clarity: rubricScoreSchema,
+  tacticalSophistication: rubricScoreSchema,
+});
+
+export const rateMessageSchema = z
+  .object({
+    rating: z.enum(moveRatingEnum.enumValues).optional(),
+    criteria: rubricScoresSchema.optional(),
+    explanation: z.string().max(500).optional(),
+  })
+  .refine((data) => data.rating || data.criteria, {
+    message: "Provide a rating or rubric scores",
+  });
+
+export const joinQueueSchema = z.object({
+  matchType: z.enum(matchTypeEnum.enumValues).default('player'),
+  gameMode: z.enum(GAME_MODE_IDS).default(DEFAULT_GAME_MODE),
+});
+
+export const submitVerdictSchema = z.object({
+  verdict: z.enum(matchVerdictEnum.enumValues),
+});
+
+export const matchOfferSchema = z.object({
+  type: z.enum(matchOfferTypeEnum.enumValues),
+});
+
+export const respondToOfferSchema = z.object({
+  accept: z.boolean(),
+});
+
+export const requestRematchSchema = z.object({
+  swapFirstMove: z.boolean().default(true),
+});
+
+export const respondToRematchSchema = z.object({
+  accept: z.boolean(),
+});
+
+export const respondToJudgeInviteSchema = z.object({
+  accept: z.boolean(),
+});
+
+export const createChallengeSchema = z
+  .object({
+    challengedId: z.string().optional(), // omit to create a shareable invite code
+    judgeIds: z.array(z.string()).length(2).optional(), // omit to take judges from the queue
+    timeControl: z.enum(TIME_CONTROL_IDS).default(DEFAULT_TIME_CONTROL),
+    gameMode: z.enum(gameModeEnum.enumValues).default('standard'),
+    blindJudging: z.boolean().default(false),
+    rated: z.boolean().default(true),
+  })
+  .refine((data) => !data.judgeIds || data.judgeIds[0] !== data.judgeIds[1], {
+    message: "Name two different judges",
+  });
+
+export const fileAppealSchema = z.object({
+  messageId: z.string().optional(), // omit to appeal the match verdict
+  reason: z.string().trim().min(10).max(1000),
+});
+
+export const submitAppealReviewSchema = z
+  .object({
+    rating: z.enum(moveRatingEnum.enumValues).optional(),
+    verdict: z.enum(matchVerdictEnum.enumValues).optional(),
+  })
+  .refine((data) => !!data.rating !== !!data.verdict, {
+    message: "Provide a rating for a message appeal or a verdict for a match appeal",
+  });
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
+export type InsertJudgeAssignment = typeof judgeAssignments.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type Match = typeof matches.$inferSelect;
 export type Message = typeof messages.$inferSelect;
 export type JudgeRating = typeof judgeRatings.$inferSelect;
+export type AiEvaluation = typeof aiEvaluations.$inferSelect;
+export type GoldMessage = typeof goldMessages.$inferSelect;
+export type CalibrationItem = typeof calibrationItems.$inferSelect;
+export type Scenario = typeof scenarios.$inferSelect;
+export type Appeal = typeof appeals.$inferSelect;
+export type AppealReview = typeof appealReviews.$inferSelect;
+export type JudgeAssignment = typeof judgeAssignments.$inferSelect;
+export type ReadyCheck = typeof readyChecks.$inferSelect;
+export type Challenge = typeof challenges.$inferSelect;
+export type Rematch = typeof rematches.$inferSelect;
+export type InsertRematch = typeof rematches.$inferInsert;
 export type Queue = typeof queue.$inferSelect;
 export type InsertMatch = z.infer<typeof insertMatchSchema>;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type InsertJudgeRating = z.infer<typeof insertJudgeRatingSchema>;
+export type InsertAiEvaluation = z.infer<typeof insertAiEvaluationSchema>;
+export type InsertGoldMessage = z.infer<typeof insertGoldMessageSchema>;
+export type InsertCalibrationItem = z.infer<typeof insertCalibrationItemSchema>;
+export type InsertScenario = z.infer<typeof insertScenarioSchema>;
+export type InsertAppeal = z.infer<typeof insertAppealSchema>;
+export type InsertChallenge = z.infer<typeof insertChallengeSchema>;
 export type InsertQueue = z.infer<typeof insertQueueSchema>;
 export type MatchStatus = typeof matchStatusEnum.enumValues[number];
 export type MoveRating = typeof moveRatingEnum.enumValues[number];
 export type MatchType = typeof matchTypeEnum.enumValues[number];
+export type GameMode = typeof gameModeEnum.enumValues[number];
+export type MatchVerdict = typeof matchVerdictEnum.enumValues[number];
+export type AppealStatus = typeof appealStatusEnum.enumValues[number];
+export type ChallengeStatus = typeof challengeStatusEnum.enumValues[number];
+export type MatchOfferType = typeof matchOfferTypeEnum.enumValues[number];
+export type MatchEndReason = typeof matchEndReasonEnum.enumValues[number];
+export type RematchStatus = typeof rematchStatusEnum.enumValues[number];
+export type RubricScores = z.infer<typeof rubricScoresSchema>;
@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MOVE_RATING_POINTS, getMessageConsensus, judgeEloChange, medianRating, ratingAgreement, weightedKappa } from "./scoring";
+
+describe("getMessageConsensus", () => {
+  it("leaves a message nobody has rated unscored", () => {
+    assert.deepEqual(getMessageConsensus([]), { rating: null, points: null, status: 'unrated' });
+  });
+
+  it("takes a lone judge's rating", () => {
+    assert.deepEqual(getMessageConsensus(['great']), { rating: 'great', points: 8, status: 'single' });
+  });
+
+  it("takes the rating both judges agree on", () => {
+    assert.deepEqual(getMessageConsensus(['good', 'good']), { rating: 'good', points: 5, status: 'agreed' });
+  });
+
+  it("lets the AI break a split", () => {
+    assert.deepEqual(getMessageConsensus(['brilliant', 'mistake'], 'excellent'), { rating: 'excellent', points: 7, status: 'tiebreak' });
+  });
+
+  it("averages the points of a split without a tie-breaker", () => {
+    const consensus = getMessageConsensus(['brilliant', 'mistake']);
+    assert.equal(consensus.rating, null);
+    assert.equal(consensus.status, 'averaged');
+    assert.equal(consensus.points, (MOVE_RATING_POINTS.brilliant + MOVE_RATING_POINTS.mistake) / 2);
+  });
+
+  it("ignores the AI when the judges agree", () => {
+    assert.equal(getMessageConsensus(['good', 'good'], 'blunder').rating, 'good');
+  });
+
+  it("lets an appeal ruling override everything", () => {
+    assert.deepEqual(getMessageConsensus(['good', 'good'], 'blunder', 'miss'), { rating: 'miss', points: 3, status: 'appealed' });
+  });
+});
+
+describe("ratingAgreement", () => {
+  it("gives full credit for the same rating and none for opposite ends of the scale", () => {
+    assert.equal(ratingAgreement('good', 'good'), 1);
+    assert.equal(ratingAgreement('brilliant', 'blunder'), 0);
+  });
+
+  it("gives partial credit by distance along the scale, either way round", () => {
+    assert.ok(Math.abs(ratingAgreement('great', 'good') - 2 / 3) < 1e-9);
+    assert.equal(ratingAgreement('good', 'great'), ratingAgreement('great', 'good'));
+  });
+});
+
+describe("weightedKappa", () => {
+  it("has nothing to say without ratings", () => {
+    assert.equal(weightedKappa([]), null);
+  });
+
+  it("is 1 for perfect agreement", () => {
+    assert.equal(weightedKappa([['good', 'good'], ['great', 'great'], ['blunder', 'blunder']]), 1);
+  });
+
+  it("is 1 when both sides only ever used the same rating", () => {
+    assert.equal(weightedKappa([['good', 'good'], ['good', 'good']]), 1);
+  });
+
+  it("goes negative when a judge systematically inverts the reference", () => {
+    assert.equal(weightedKappa([['brilliant', 'blunder'], ['blunder', 'brilliant']]), -1);
+  });
+
+  it("counts near misses as better than distant misses", () => {
+    const nearMisses = weightedKappa([['great', 'brilliant'], ['good', 'excellent'], ['mistake', 'blunder'], ['brilliant', 'brilliant']]);
+    const farMisses = weightedKappa([['blunder', 'brilliant'], ['brilliant', 'excellent'], ['brilliant', 'blunder'], ['brilliant', 'brilliant']]);
+    assert.ok(nearMisses! > farMisses!);
+  });
+});
+
+describe("judgeEloChange", () => {
+  it("awards the full bonus for agreement and the full penalty for opposite ends", () => {
+    assert.equal(judgeEloChange(1), 10);
+    assert.equal(judgeEloChange(0), -5);
+  });
+
+  it("still rewards a near miss", () => {
+    assert.ok(judgeEloChange(ratingAgreement('great', 'brilliant')) > 0);
+  });
+
+  it("crosses zero around four steps apart", () => {
+    assert.equal(judgeEloChange(ratingAgreement('brilliant', 'miss')), 0);
+    assert.ok(judgeEloChange(ratingAgreement('brilliant', 'mistake')) < 0);
+  });
+});
+
+describe("medianRating", () => {
+  it("takes the middle rating of an odd panel", () => {
+    assert.equal(medianRating(['blunder', 'great', 'good']), 'good');
+  });
+
+  it("takes the better of the two middle ratings of an even panel", () => {
+    assert.equal(medianRating(['good', 'great']), 'great');
+  });
+
+  it("takes a single reviewer's rating as is", () => {
+    assert.equal(medianRating(['miss']), 'miss');
+  });
+});
@@ -0,0 +1,128 @@
+import type { MoveRating, RubricScores } from "./schema";
+
+// Points each move rating contributes to a player's match score (0-10 scale)
+export const MOVE_RATING_POINTS: Record<MoveRating, number> = {
+  brilliant: 10,
+  great: 8,
+  excellent: 7,
+  good: 5,
+  miss: 3,
+  mistake: 2,
+  blunder: 0,
+};
+
+// Move ratings from best to worst; distance along this scale measures how far apart two ratings are
+export const MOVE_RATING_ORDER: MoveRating[] = ['brilliant', 'great', 'excellent', 'good', 'miss', 'mistake', 'blunder'];
+
+const MAX_RATING_DISTANCE = MOVE_RATING_ORDER.length - 1;
+
+export function ratingDistance(a: MoveRating, b: MoveRating): number {
+  return Math.abs(MOVE_RATING_ORDER.indexOf(a) - MOVE_RATING_ORDER.indexOf(b));
+}
+
+// Linearly weighted agreement: 1 for the same rating, 0 for brilliant against blunder
+export function ratingAgreement(a: MoveRating, b: MoveRating): number {
+  return 1 - ratingDistance(a, b) / MAX_RATING_DISTANCE;
+}
+
+// Middle rating of a panel's ratings (the better of the two middles for an even count)
+export function medianRating(ratings: MoveRating[]): MoveRating {
+  const sorted = [...ratings].sort((a, b) => MOVE_RATING_ORDER.indexOf(a) - MOVE_RATING_ORDER.indexOf(b));
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+// Judge ELO change for a rating that scored `agreement` against its reference. A near-miss
+// earns most of the bonus, opposite ends of the scale cost the full penalty, and the
+// change crosses zero around four steps apart.
+export function judgeEloChange(agreement: number): number {
+  const AGREEMENT_BONUS = 10;  // Points gained for full agreement
+  const DISAGREEMENT_PENALTY = 5; // Points lost for maximal disagreement
+  return Math.round(agreement * AGREEMENT_BONUS - (1 - agreement) * DISAGREEMENT_PENALTY);
+}
+
+// Linear weighted Cohen's kappa over (judge rating, reference rating) pairs.
+// 1 is perfect agreement, 0 is no better than chance; null with no data.
+export function weightedKappa(pairs: Array<[MoveRating, MoveRating]>): number | null {
+  if (pairs.length === 0) return null;
+
+  const judgeCounts = new Array(MOVE_RATING_ORDER.length).fill(0);
+  const referenceCounts = new Array(MOVE_RATING_ORDER.length).fill(0);
+  let observedDisagreement = 0;
+
+  for (const [judgeRating, referenceRating] of pairs) {
+    judgeCounts[MOVE_RATING_ORDER.indexOf(judgeRating)]++;
+    referenceCounts[MOVE_RATING_ORDER.indexOf(referenceRating)]++;
+    observedDisagreement += 1 - ratingAgreement(judgeRating, referenceRating);
+  }
+  observedDisagreement /= pairs.length;
+
+  let expectedDisagreement = 0;
+  for (let i = 0; i < MOVE_RATING_ORDER.length; i++) {
+    for (let j = 0; j < MOVE_RATING_ORDER.length; j++) {
+      const chance = (judgeCounts[i] / pairs.length) * (referenceCounts[j] / pairs.length);
+      expectedDisagreement += chance * Math.abs(i - j) / MAX_RATING_DISTANCE;
+    }
+  }
+
+  // Both sides used a single, identical rating throughout - nothing to disagree on
+  if (expectedDisagreement === 0) return 1;
+
+  return 1 - observedDisagreement / expectedDisagreement;
+}
+
+// The four criteria judges (and the AI) assess a message on
+export const RUBRIC_CRITERIA: Array<{ key: keyof RubricScores; label: string }> = [
+  { key: 'strategicValue', label: 'Strategy' },
+  { key: 'psychologicalImpact', label: 'Psychology' },
+  { key: 'clarity', label: 'Clarity' },
+  { key: 'tacticalSophistication', label: 'Tactics' },
+];
+
+// Overall move rating from the average of the 1-5 rubric scores
+export function ratingFromCriteria(scores: RubricScores): MoveRating {
+  const average = RUBRIC_CRITERIA.reduce((sum, { key }) => sum + scores[key], 0) / RUBRIC_CRITERIA.length;
+
+  if (average >= 4.75) return 'brilliant';
+  if (average >= 4.25) return 'great';
+  if (average >= 3.75) return 'excellent';
+  if (average >= 3) return 'good';
+  if (average >= 2.25) return 'miss';
+  if (average >= 1.5) return 'mistake';
+  return 'blunder';
+}
+
+export type ConsensusStatus = 'appealed' | 'agreed' | 'tiebreak' | 'averaged' | 'single' | 'unrated';
+
+export interface MessageConsensus {
+  rating: MoveRating | null; // null when the judges split unresolved or nobody has rated yet
+  points: number | null;
+  status: ConsensusStatus;
+}
+
+// Settle a message's rating from its judge ratings. An appeal panel's rating overrides
+// everything; agreeing judges set the rating outright; when they split, the AI
+// tie-breaker decides, and without one the message scores the average of their points.
+export function getMessageConsensus(ratings: MoveRating[], aiRating?: MoveRating, appealRating?: MoveRating): MessageConsensus {
+  if (appealRating) {
+    return { rating: appealRating, points: MOVE_RATING_POINTS[appealRating], status: 'appealed' };
+  }
+
+  if (ratings.length === 0) {
+    return { rating: null, points: null, status: 'unrated' };
+  }
+
+  if (ratings.every(rating => rating === ratings[0])) {
+    return {
+      rating: ratings[0],
+      points: MOVE_RATING_POINTS[ratings[0]],
+      status: ratings.length === 1 ? 'single' : 'agreed',
+    };
+  }
+
+  if (aiRating) {
+    return { rating: aiRating, points: MOVE_RATING_POINTS[aiRating], status: 'tiebreak' };
+  }
+
+  const points = ratings.reduce((sum, rating) => sum + MOVE_RATING_POINTS[rating], 0) / ratings.length;
+  return { rating: null, points, status: 'averaged' };
+}
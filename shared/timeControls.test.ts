@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getFlaggedPlayer, getMatchClocks } from "./timeControls";
+
+const START = new Date("2026-01-01T12:00:00Z");
+
+const clockedMatch = (overrides: Partial<Parameters<typeof getMatchClocks>[0]> = {}) => ({
+  status: 'active' as const,
+  timeLimit: 300,
+  player1Id: 'p1',
+  player2Id: 'p2',
+  currentTurn: 'p1',
+  player1TimeRemaining: null,
+  player2TimeRemaining: null,
+  turnStartedAt: null,
+  startedAt: START,
+  ...overrides,
+});
+
+const secondsAfterStart = (seconds: number) => START.getTime() + seconds * 1000;
+
+describe("getMatchClocks", () => {
+  it("starts both players on the full time limit", () => {
+    assert.deepEqual(getMatchClocks(clockedMatch(), START.getTime()), { player1: 300000, player2: 300000 });
+  });
+
+  it("falls back to five minutes for matches without a time limit", () => {
+    assert.deepEqual(getMatchClocks(clockedMatch({ timeLimit: null }), START.getTime()), { player1: 300000, player2: 300000 });
+  });
+
+  it("only runs the clock of the player to move", () => {
+    assert.deepEqual(getMatchClocks(clockedMatch(), secondsAfterStart(40)), { player1: 260000, player2: 300000 });
+  });
+
+  it("charges the mover from the start of their turn on top of their stored clock", () => {
+    const match = clockedMatch({
+      currentTurn: 'p2',
+      player1TimeRemaining: 250000,
+      turnStartedAt: new Date(secondsAfterStart(50)),
+    });
+    assert.deepEqual(getMatchClocks(match, secondsAfterStart(80)), { player1: 250000, player2: 270000 });
+  });
+
+  it("stops both clocks once the match is no longer active", () => {
+    const match = clockedMatch({ status: 'pending_verdict', player1TimeRemaining: 120000 });
+    assert.deepEqual(getMatchClocks(match, secondsAfterStart(600)), { player1: 120000, player2: 300000 });
+  });
+});
+
+describe("getFlaggedPlayer", () => {
+  it("is null while the player to move still has time", () => {
+    assert.equal(getFlaggedPlayer(clockedMatch(), secondsAfterStart(299)), null);
+  });
+
+  it("flags the player to move once their clock reaches zero", () => {
+    assert.equal(getFlaggedPlayer(clockedMatch(), secondsAfterStart(300)), 'p1');
+  });
+
+  it("never flags the player who is waiting, however low their clock", () => {
+    const match = clockedMatch({ currentTurn: 'p2', player1TimeRemaining: 0, turnStartedAt: START });
+    assert.equal(getFlaggedPlayer(match, secondsAfterStart(10)), null);
+  });
+});
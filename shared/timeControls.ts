@@ -0,0 +1,53 @@
+import type { Match } from "./schema";
+
+// Chess-clock presets: each player starts with `base` seconds and gains `increment`
+// seconds for every message they send. Ids follow the usual "minutes+seconds" notation.
+export const TIME_CONTROLS = {
+  '3+2': { base: 180, increment: 2, label: 'Blitz 3+2' },
+  '5+0': { base: 300, increment: 0, label: 'Rapid 5+0' },
+  '10+0': { base: 600, increment: 0, label: 'Classical 10+0' },
+  '10+5': { base: 600, increment: 5, label: 'Classical 10+5' },
+} as const;
+
+export type TimeControlId = keyof typeof TIME_CONTROLS;
+
+export const TIME_CONTROL_IDS = Object.keys(TIME_CONTROLS) as [TimeControlId, ...TimeControlId[]];
+
+export const DEFAULT_TIME_CONTROL: TimeControlId = '5+0';
+
+// "3+2" style label for a match or challenge's clock settings
+export function formatTimeControl(base: number, increment: number): string {
+  return `${Math.round(base / 60)}+${increment}`;
+}
+
+const DEFAULT_CLOCK = 5 * 60 * 1000; // 5 minutes per player, for matches without their own time limit
+
+type ClockedMatch = Pick<Match,
+  'status' | 'timeLimit' | 'player1Id' | 'player2Id' | 'currentTurn' |
+  'player1TimeRemaining' | 'player2TimeRemaining' | 'turnStartedAt' | 'startedAt'>;
+
+// Each player's remaining time in milliseconds as of `now`. Stored clocks are as of each
+// player's last move, so the player to move is charged for the time since their turn began.
+export function getMatchClocks(match: ClockedMatch, now: number = Date.now()): { player1: number; player2: number } {
+  const fullTime = match.timeLimit ? match.timeLimit * 1000 : DEFAULT_CLOCK;
+  const clocks = {
+    player1: match.player1TimeRemaining ?? fullTime,
+    player2: match.player2TimeRemaining ?? fullTime,
+  };
+
+  const turnStartedAt = match.turnStartedAt ?? match.startedAt;
+  if (match.status === 'active' && turnStartedAt) {
+    const elapsed = now - turnStartedAt.getTime();
+    if (match.currentTurn === match.player1Id) clocks.player1 -= elapsed;
+    else if (match.currentTurn === match.player2Id) clocks.player2 -= elapsed;
+  }
+  return clocks;
+}
+
+// The player to move once their clock has run out, or null while they still have time
+export function getFlaggedPlayer(match: ClockedMatch, now: number = Date.now()): string | null {
+  const clocks = getMatchClocks(match, now);
+  if (match.currentTurn === match.player1Id && clocks.player1 <= 0) return match.player1Id;
+  if (match.currentTurn === match.player2Id && clocks.player2 <= 0) return match.player2Id;
+  return null;
+}